@@ -7,13 +7,32 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import { toast } from 'sonner'
-import { Video, Loader2, KeyRound } from 'lucide-react'
+import { Video, Loader2, KeyRound, Lock } from 'lucide-react'
 import { secureStorage } from '@/lib/secure-storage'
 import { SiteHeader } from '@/components/site-header'
+import { RoomSettings, TopologyMode } from '@/lib/types'
+import { DEFAULT_ROOM_SETTINGS, MIN_ROOM_PARTICIPANTS, MAX_ROOM_PARTICIPANTS, STAR_TOPOLOGY_THRESHOLD, TOPOLOGY_MODES } from '@/lib/room-settings'
+
+const SETTING_LABELS: Record<Exclude<keyof RoomSettings, 'maxParticipants' | 'topology'>, string> = {
+  allowWaitingRoom: 'Waiting room: ask me before letting people in',
+  muteOnEntry: 'Mute people when they join',
+  videoOnEntry: 'Turn cameras on when people join',
+  enableChat: 'Participants can chat',
+  enableScreenShare: 'Participants can share their screen',
+}
+
+const TOPOLOGY_LABELS: Record<TopologyMode, string> = {
+  auto: `Automatic (through me past ${STAR_TOPOLOGY_THRESHOLD} people)`,
+  mesh: 'Direct between everyone',
+  star: 'Through me',
+}
 
 export default function CreateRoomPage({ params }: { params: Promise<{ lang: string }> }) {
   const [title, setTitle] = useState('')
   const [password, setPassword] = useState('')
+  const [participantPasscode, setParticipantPasscode] = useState('')
+  const [autoAdmitWithPasscode, setAutoAdmitWithPasscode] = useState(false)
+  const [settings, setSettings] = useState<RoomSettings>(DEFAULT_ROOM_SETTINGS)
   const [isLoading, setIsLoading] = useState(false)
   const [lang, setLang] = useState('en')
   const router = useRouter()
@@ -30,7 +49,7 @@ export default function CreateRoomPage({ params }: { params: Promise<{ lang: str
       const res = await fetch('/api/rooms', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ title, password })
+        body: JSON.stringify({ title, password, participantPasscode: participantPasscode || undefined, autoAdmitWithPasscode, settings })
       })
       const data = await res.json()
       
@@ -99,6 +118,68 @@ export default function CreateRoomPage({ params }: { params: Promise<{ lang: str
                 </div>
                 <p className="text-xs text-gray-500 ml-1">You'll need this to control the room later.</p>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="participantPasscode" className="text-sm font-medium text-gray-700">Participant Passcode (optional)</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
+                  <Input
+                    id="participantPasscode"
+                    type="password"
+                    placeholder="Share this with people you invite"
+                    value={participantPasscode}
+                    onChange={e => setParticipantPasscode(e.target.value)}
+                    maxLength={100}
+                    className="pl-10 h-11 bg-white/50"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 ml-1">Join requests with a wrong passcode are turned away automatically.</p>
+                {participantPasscode && (
+                  <label className="flex items-center gap-2 ml-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={autoAdmitWithPasscode}
+                      onChange={e => setAutoAdmitWithPasscode(e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300"
+                    />
+                    Let people with the right passcode in without asking
+                  </label>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-gray-700">Room Settings</Label>
+                {(Object.keys(SETTING_LABELS) as (keyof typeof SETTING_LABELS)[]).map(flag => (
+                  <label key={flag} className="flex items-center gap-2 ml-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={settings[flag]}
+                      onChange={e => setSettings(s => ({ ...s, [flag]: e.target.checked }))}
+                      className="h-4 w-4 rounded border-gray-300"
+                    />
+                    {SETTING_LABELS[flag]}
+                  </label>
+                ))}
+                <label className="flex items-center justify-between gap-2 ml-1 text-sm text-gray-700">
+                  Maximum participants
+                  <Input
+                    type="number"
+                    min={MIN_ROOM_PARTICIPANTS}
+                    max={MAX_ROOM_PARTICIPANTS}
+                    value={settings.maxParticipants}
+                    onChange={e => setSettings(s => ({ ...s, maxParticipants: Number(e.target.value) }))}
+                    className="w-24 h-9 bg-white/50"
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-2 ml-1 text-sm text-gray-700">
+                  Video routing
+                  <select
+                    value={settings.topology}
+                    onChange={e => setSettings(s => ({ ...s, topology: e.target.value as TopologyMode }))}
+                    className="h-9 rounded-md border border-gray-300 bg-white/50 px-2 text-sm"
+                  >
+                    {TOPOLOGY_MODES.map(mode => <option key={mode} value={mode}>{TOPOLOGY_LABELS[mode]}</option>)}
+                  </select>
+                </label>
+              </div>
               
               <Button type="submit" className="w-full h-11 text-base bg-blue-600 hover:bg-blue-700" disabled={isLoading}>
                 {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : 'Create Room'}
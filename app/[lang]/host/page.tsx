@@ -7,7 +7,7 @@ import { QRCodeGenerator } from "@/components/qr-code-generator";
 import { ConnectionStatus } from "@/components/connection-status";
 import { ConnectionLogger, LogEntry } from "@/components/connection-logger";
 import { toast } from "sonner";
-import MeetingManager from "@/services/meeting-manager";
+import MeetingManager, { MeetingEvents } from "@/services/meeting-manager";
 import { ConnectionState, Participant } from "@/lib/types";
 import { LanguageSwitcher } from "@/components/language-switcher";
 import { getTranslations } from "@/lib/client-i18n";
@@ -44,17 +44,13 @@ function HostPageContent({ params }: { params: Promise<{ lang: string }> }) {
     setLogs((prev) => [...prev, log]);
   };
 
-  const handleParticipantJoined = (participant: Participant) => {
-    setParticipants((prev) => [...prev, participant]);
+  // The participant list itself comes from the state subscription; these only announce
+  const handleParticipantJoined = ({ participant }: MeetingEvents["participant-joined"]) => {
     toast.success(`${participant.name} joined the meeting`);
   };
 
-  const handleParticipantLeft = (participantId: string) => {
-    setParticipants((prev) => prev.filter(p => p.id !== participantId));
-    const participant = participants.find(p => p.id === participantId);
-    if (participant) {
-      toast.success(`${participant.name} left the meeting`);
-    }
+  const handleParticipantLeft = ({ participant }: MeetingEvents["participant-left"]) => {
+    toast.success(`${participant.name} left the meeting`);
   };
 
   useEffect(() => {
@@ -67,6 +63,19 @@ function HostPageContent({ params }: { params: Promise<{ lang: string }> }) {
       setError(meetingManager.state.error);
       setLocalStream(meetingManager.getLocalStream());
     });
+    const unsubscribeEvents = [
+      meetingManager.on("participant-joined", handleParticipantJoined),
+      meetingManager.on("participant-left", handleParticipantLeft),
+      meetingManager.on("join-requested", ({ name }) => {
+        handleLog({ timestamp: new Date(), level: "info", message: `${name} asked to join` });
+      }),
+      meetingManager.on("connection-state-changed", ({ state }) => {
+        handleLog({ timestamp: new Date(), level: state === "disconnected" ? "warning" : "info", message: `Connection ${state}` });
+      }),
+      meetingManager.on("error", ({ message }) => {
+        handleLog({ timestamp: new Date(), level: "error", message });
+      }),
+    ];
 
     // Initialize meeting as host with media
     const initializeMeeting = async () => {
@@ -89,6 +98,7 @@ function HostPageContent({ params }: { params: Promise<{ lang: string }> }) {
 
     return () => {
       unsubscribe();
+      unsubscribeEvents.forEach(off => off());
       meetingManager.leave(); // FIX: Release media on unmount
     };
   }, []);
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, memo } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import MeetingManager from '@/services/meeting-manager'
 import { Button } from '@/components/ui/button'
@@ -8,15 +8,37 @@ import { Input } from '@/components/ui/input'
 import { Card, CardContent } from '@/components/ui/card'
 import {
   Mic, MicOff, Video as VideoIcon, VideoOff, PhoneOff,
-  Check, X, Users, Key, QrCode, Copy, Share2, MessageSquare, Send, Monitor, MonitorOff
+  Check, X, Users, Key, QrCode, Copy, Share2, MessageSquare, Send, Monitor, MonitorOff,
+  MoreVertical, UserX, Ban, Hand, SmilePlus, LayoutGrid, SquareUser, Settings, Activity, Circle, Square, Paperclip, Pencil, FileDown, Lock, Keyboard, WifiOff
 } from 'lucide-react'
 import { toast } from 'sonner'
-import { PublicRoomInfo, Participant, ChatMessage } from '@/lib/types'
+import { PublicRoomInfo, Participant, ChatMessage, RoomSettings, TopologyMode } from '@/lib/types'
 import { secureStorage } from '@/lib/secure-storage'
 import { QRCodeGenerator } from '@/components/qr-code-generator'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator
+} from '@/components/ui/dropdown-menu'
 import { VideoPlayer } from '@/components/video-player'
+import { DeviceSettings } from '@/components/device-settings'
+import { CallStatsPanel } from '@/components/call-stats-panel'
+import { ChatMessageItem } from '@/components/chat-message-item'
+import { AudioProcessingSettings } from '@/components/audio-processing-settings'
+import { ShortcutsHelp } from '@/components/shortcuts-help'
+import { useMeetingShortcuts, ShortcutAction } from '@/hooks/use-meeting-shortcuts'
+import {
+  useParticipants, useChat, useWaitingRoom, useLocalMedia, useMeetingStatus, useCallStats, useIsSpeaking, useConnectionQuality, useReactions
+} from '@/hooks/use-meeting-state'
+import { ScreenShareStage } from '@/components/screen-share-stage'
 import { getTranslations } from '@/lib/client-i18n'
+import { REACTION_EMOJIS } from '@/lib/meeting-protocol'
+import { RecordingLayout } from '@/lib/meeting-recorder'
+import { saveBlobAsFile, formatFileSize } from '@/lib/utils'
+import { MAX_SHARED_FILE_SIZE } from '@/lib/file-transfer'
+import { ROOM_SETTING_FLAGS, TOPOLOGY_MODES } from '@/lib/room-settings'
+import { ReportFormat, REPORT_FILE_TYPES, formatMeetingReport } from '@/lib/meeting-report'
+
+const MAX_PARTICIPANT_CHOICES = [2, 4, 6, 8, 10, 15, 20, 30, 50]
 
 const getInitials = (name: string) => {
   return (name || 'User')
@@ -28,20 +50,98 @@ const getInitials = (name: string) => {
 }
 
 // 1. Participant Tile Component (Updated)
-function ParticipantVideo({ participant }: { participant: Participant }) {
+// Memoized: a participant object only changes when that participant does, and the fast-moving
+// slices (speaking, signal quality, reactions) are read here rather than passed down
+const ParticipantVideo = memo(function ParticipantVideo({ participant, canModerate, sinkId, videoPaused, className, t }: {
+  participant: Participant
+  canModerate: boolean
+  sinkId: string | null
+  videoPaused: boolean // Low bandwidth mode: remote video is not being received
+  className?: string
+  t: (key: string) => string
+}) {
+  const manager = MeetingManager.getInstance()
+  const reactions = useReactions(participant.id)
+  const isSpeaking = useIsSpeaking(participant.id)
+  const connectionQuality = useConnectionQuality(participant.id)
+
+  return (
+    <div className={`relative ${className ?? (participant.isScreenSharing ? 'col-span-1 sm:col-span-2 row-span-2' : 'aspect-video')}`}>
+      <VideoPlayer
+        stream={participant.stream || null}
+        isLocal={false}
+        name={participant.name}
+        className="w-full h-full"
+        isScreenSharing={participant.isScreenSharing}
+        hasAudio={participant.hasAudio}
+        isVideoEnabled={participant.hasVideo && !videoPaused} // Pass the status here
+        isHandRaised={participant.handRaisedAt !== undefined}
+        reactions={reactions}
+        isSpeaking={isSpeaking}
+        sinkId={sinkId}
+        connectionQuality={connectionQuality}
+        connectionQualityLabel={t(`room.quality.${connectionQuality}`)}
+        isReconnecting={participant.status === 'reconnecting'}
+        reconnectingLabel={t("room.reconnecting")}
+      />
+
+      {/* Host moderation menu */}
+      {canModerate && (
+        <div className="absolute top-2 right-2 z-20">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="icon" variant="ghost" className="h-8 w-8 rounded-full bg-black/50 text-white hover:bg-black/70" aria-label={t("room.participantOptions")}>
+                <MoreVertical className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem disabled={!participant.hasAudio} onClick={() => manager.muteParticipant(participant.id)}>
+                <MicOff className="w-4 h-4 mr-2" /> {t("room.muteParticipant")}
+              </DropdownMenuItem>
+              <DropdownMenuItem disabled={!participant.hasVideo} onClick={() => manager.stopParticipantVideo(participant.id)}>
+                <VideoOff className="w-4 h-4 mr-2" /> {t("room.stopParticipantVideo")}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem className="text-red-600" onClick={() => manager.removeParticipant(participant.id)}>
+                <UserX className="w-4 h-4 mr-2" /> {t("room.removeParticipant")}
+              </DropdownMenuItem>
+              <DropdownMenuItem className="text-red-600" onClick={() => manager.banParticipant(participant.id)}>
+                <Ban className="w-4 h-4 mr-2" /> {t("room.banParticipant")}
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
+    </div>
+  )
+})
+
+function LocalTile({ name, className }: { name: string; className: string }) {
+  const manager = MeetingManager.getInstance()
+  const { stream, isVideoMuted, isHandRaised } = useLocalMedia()
+  const reactions = useReactions(manager.getPeerId())
+  const isSpeaking = useIsSpeaking(manager.getPeerId())
+
   return (
     <VideoPlayer
-      stream={participant.stream || null}
-      isLocal={false}
-      name={participant.name}
-      className={`${participant.isScreenSharing ? 'col-span-1 sm:col-span-2 row-span-2' : 'aspect-video'}`}
-      isScreenSharing={participant.isScreenSharing}
-      hasAudio={participant.hasAudio}
-      isVideoEnabled={participant.hasVideo} // Pass the status here
+      stream={stream}
+      isLocal={true}
+      name={name}
+      className={className}
+      isVideoEnabled={!isVideoMuted}
+      isHandRaised={isHandRaised}
+      reactions={reactions}
+      isSpeaking={isSpeaking}
     />
   )
 }
 
+// Stats refresh every few seconds; only the open panel should re-render for them
+function LiveCallStats({ participants, t }: { participants: Participant[]; t: (key: string) => string }) {
+  const stats = useCallStats()
+  return <CallStatsPanel participants={participants} stats={stats} t={t} />
+}
+
 export default function RoomPage() {
   const params = useParams()
   const router = useRouter()
@@ -58,27 +158,95 @@ export default function RoomPage() {
   const [phase, setPhase] = useState<'setup' | 'lobby' | 'meeting'>('setup')
   const [name, setName] = useState('')
   const [password, setPassword] = useState('')
+  const [passcode, setPasscode] = useState('')
   const [isHost, setIsHost] = useState(false)
   const [showLobbyMobile, setShowLobbyMobile] = useState(false)
   const [showQR, setShowQR] = useState(false)
   const [showChat, setShowChat] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const [showStats, setShowStats] = useState(false)
+  const [showShortcuts, setShowShortcuts] = useState(false)
   const [chatInput, setChatInput] = useState('')
+  const [chatRecipient, setChatRecipient] = useState('') // Empty for everyone
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
+  const [layout, setLayout] = useState<'grid' | 'speaker'>('grid')
+  const [featuredSpeakerId, setFeaturedSpeakerId] = useState<string | null>(null)
   
   // Meeting State
   const manager = MeetingManager.getInstance()
-  const [meetingState, setMeetingState] = useState(manager.state)
+  // Slices rather than the whole state: audio levels and call stats change several times a
+  // second, and only the tiles and the stats panel read them
+  const participants = useParticipants()
+  const waitingPeers = useWaitingRoom()
+  const { messages, typingPeers, sharedFiles } = useChat()
+  const localMedia = useLocalMedia()
+  const status = useMeetingStatus()
   const localVideoRef = useRef<HTMLVideoElement>(null)
   
   // Track local media state for UI
-  const [localVideoEnabled, setLocalVideoEnabled] = useState(true)
-  const [localAudioEnabled, setLocalAudioEnabled] = useState(true)
+  const localVideoEnabled = !localMedia.isVideoMuted
+  const localAudioEnabled = !localMedia.isAudioMuted
   const chatScrollRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isDraggingFile, setIsDraggingFile] = useState(false)
+  const lastModerationRef = useRef<number | null>(null)
 
   const meetingLink = typeof window !== 'undefined'
     ? `${window.location.origin}/${lang}/room/${roomId}`
     : ''
 
-  const handleGoHome = () => {
+  const saveRecording = (blob: Blob | null) => {
+    if (!blob) return
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')
+    saveBlobAsFile(blob, `${roomId}-${stamp}.webm`)
+    toast.success(t("room.recordingSaved"))
+  }
+
+  const handleExportReport = (format: ReportFormat) => {
+    const report = manager.createMeetingReport(roomInfo?.title || t("room.title"))
+    const { extension, mimeType } = REPORT_FILE_TYPES[format]
+    const stamp = new Date(report.endedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')
+    saveBlobAsFile(new Blob([formatMeetingReport(report, format)], { type: mimeType }), `${roomId}-report-${stamp}.${extension}`)
+  }
+
+  const handleChatHistorySharing = (enabled: boolean) => {
+    manager.setChatHistorySharing(enabled)
+    // Remembered per room for the next time we host it
+    secureStorage.saveRoom({
+      roomId,
+      title: roomInfo?.title || '',
+      createdAt: roomInfo?.createdAt || Date.now(),
+      lastAccessed: Date.now(),
+      shareChatHistory: enabled
+    })
+  }
+
+  // Saved with the room when we hold its password; a successor host only changes this meeting
+  const handleRoomSettingsChange = async (patch: Partial<RoomSettings>) => {
+    if (!password) {
+      manager.setRoomSettings({ ...status.roomSettings, ...patch })
+      return
+    }
+    const res = await fetch(`/api/rooms/${roomId}/settings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password, settings: patch })
+    })
+    const data = await res.json()
+    if (!data.success) {
+      toast.error(t("room.roomSettingsFailed"))
+      return
+    }
+    manager.setRoomSettings(data.settings)
+  }
+
+  const handleStopRecording = async () => {
+    saveRecording(await manager.stopRecording())
+  }
+
+  const handleGoHome = async () => {
+    // Keep the recording rather than dropping it with the call
+    if (manager.state.isRecording) await handleStopRecording()
     manager.leave()
     router.push(`/${lang}`)
   }
@@ -113,7 +281,7 @@ export default function RoomPage() {
     if (chatScrollRef.current) {
         chatScrollRef.current.scrollTop = chatScrollRef.current.scrollHeight
     }
-  }, [meetingState.messages, showChat])
+  }, [messages, showChat])
 
   // 1. Fetch Room Info on Load
   useEffect(() => {
@@ -144,21 +312,9 @@ export default function RoomPage() {
       }
     }
     fetchRoom()
-    
-    // Subscribe to Manager Updates
-    const unsub = manager.subscribe(() => {
-      setMeetingState({ ...manager.state })
-      
-      const stream = manager.getLocalStream()
-      if (stream) {
-         setLocalVideoEnabled(!manager.state.isVideoMuted)
-         setLocalAudioEnabled(!manager.state.isAudioMuted)
-      }
-    })
 
     // FIX: Add cleanup on unmount
     return () => {
-      unsub()
       manager.leave() // Ensure camera is released when leaving the page
     }
   }, [roomId, lang, router])
@@ -196,6 +352,13 @@ export default function RoomPage() {
           lastAccessed: Date.now()
         })
         
+        const savedRoom = (await secureStorage.getRooms()).find(r => r.roomId === roomId)
+        manager.setChatHistorySharing(savedRoom?.shareChatHistory ?? true)
+
+        // Joiners' passcodes are checked against a key derived from it; the code itself stays here
+        await manager.setParticipantPasscode(roomId, data.participantPasscode ?? null, !!data.autoAdmitWithPasscode)
+        if (data.settings) manager.setRoomSettings(data.settings)
+
         setIsHost(true)
         setPhase('meeting')
         manager.startHosting(roomId, password, name, false)
@@ -225,7 +388,7 @@ export default function RoomPage() {
         lastAccessed: Date.now()
       })
       
-      manager.joinRoom(data.hostPeerId, name)
+      manager.joinRoom(data.hostPeerId, name, roomId, passcode || undefined)
       setPhase('lobby')
     } else {
       toast.error(t("room.waitingForHostOnline"))
@@ -234,18 +397,194 @@ export default function RoomPage() {
 
   // Effect to handle transition from Lobby -> Meeting
   useEffect(() => {
-    if (phase === 'lobby' && meetingState.connectionState === 'active') {
+    if (phase === 'lobby' && status.connectionState === 'active') {
       setPhase('meeting')
     }
-  }, [meetingState.connectionState, phase])
+  }, [status.connectionState, phase])
 
-  const handleSendMessage = (e?: React.FormEvent) => {
+  // Turned away at the door: back to setup so the passcode can be corrected
+  useEffect(() => {
+    if (phase !== 'lobby' || !status.joinRejection) return
+    toast.error(t(status.joinRejection === 'passcode' ? "room.incorrectPasscode"
+      : status.joinRejection === 'full' ? "room.meetingFull" : "room.joinRejected"))
+    manager.leave()
+    setPhase('setup')
+  }, [status.joinRejection, phase])
+
+  // The signaling server never let us in: back to setup with the reason
+  useEffect(() => {
+    const signalingError = status.signalingError
+    if (phase === 'setup' || !signalingError || signalingError === 'lost') return
+    toast.error(t(`room.signaling.${signalingError}`))
+    manager.leave()
+    setPhase('setup')
+  }, [status.signalingError, phase])
+
+  // Host migration: pick up the host controls if the previous host dropped and we were next in line
+  useEffect(() => {
+    if (phase === 'meeting' && !isHost && manager.isHost()) {
+      setIsHost(true)
+      toast.info(t("room.youAreNowHost"))
+    }
+  }, [participants, phase, isHost])
+
+  // Speaker view follows the dominant remote speaker; our own voice never takes the stage
+  useEffect(() => {
+    const speakerId = status.activeSpeakerId
+    if (speakerId && speakerId !== manager.getPeerId()) setFeaturedSpeakerId(speakerId)
+  }, [status.activeSpeakerId])
+
+  // Moderation notices from the host
+  useEffect(() => {
+    const moderation = status.lastModeration
+    if (!moderation || moderation.timestamp === lastModerationRef.current) return
+    lastModerationRef.current = moderation.timestamp
+
+    if (moderation.action === 'mute') {
+      toast.warning(t("room.mutedByHost"))
+    } else if (moderation.action === 'stop-video') {
+      toast.warning(t("room.videoStoppedByHost"))
+    } else {
+      toast.error(t(moderation.action === 'ban' ? "room.bannedByHost" : "room.removedByHost"))
+      router.push(`/${lang}`)
+    }
+  }, [status.lastModeration])
+
+  // Fall back to everyone when the person we were messaging leaves
+  useEffect(() => {
+    if (chatRecipient && !participants.some(p => p.id === chatRecipient)) setChatRecipient('')
+  }, [participants, chatRecipient])
+
+  const handleShortcut = (action: ShortcutAction) => {
+      if (action === 'toggleAudio') manager.toggleAudio()
+      else if (action === 'toggleVideo') manager.toggleVideo()
+      else if (action === 'toggleScreenShare') {
+        if (localMedia.isScreenSharing) manager.stopScreenShare()
+        else manager.startScreenShare()
+      }
+      else if (action === 'toggleChat') setShowChat(open => !open)
+      else if (action === 'toggleHand') manager.toggleHand()
+      else setShowShortcuts(open => !open)
+  }
+
+  useMeetingShortcuts({
+      enabled: phase === 'meeting',
+      pushToTalk: localMedia.isPushToTalk,
+      onAction: handleShortcut,
+      onPushToTalk: talking => manager.pushToTalk(talking)
+  })
+
+  const handleSendMessage = async (e?: React.FormEvent) => {
       e?.preventDefault()
       if (!chatInput.trim()) return
+      if (editingMessageId) {
+        manager.editMessage(editingMessageId, chatInput)
+        handleCancelEdit()
+        return
+      }
+      if (chatRecipient) {
+        const text = chatInput
+        setChatInput('')
+        if (!await manager.sendDirectMessage(text, chatRecipient)) {
+          setChatInput(text)
+          toast.error(t("room.privateMessageFailed"))
+        }
+        return
+      }
       manager.sendMessage(chatInput)
       setChatInput('')
   }
 
+  const handleChatInput = (value: string) => {
+      setChatInput(value)
+      // Private messages and edits don't tell the room anyone is typing
+      if (!chatRecipient && !editingMessageId) manager.setTyping(value.length > 0)
+  }
+
+  const handleStartEdit = (message: ChatMessage) => {
+      setEditingMessageId(message.id)
+      setChatRecipient('')
+      setChatInput(message.text)
+  }
+
+  const handleCancelEdit = () => {
+      setEditingMessageId(null)
+      setChatInput('')
+  }
+
+  const nameOf = (peerId: string) => participants.find(p => p.id === peerId)?.name ?? t("room.participant")
+
+  const typingNames = typingPeers.map(id => nameOf(id))
+  const typingLabel = typingNames.length === 0 ? null
+      : typingNames.length === 1 ? t("room.typingOne", { name: typingNames[0] })
+      : typingNames.length === 2 ? t("room.typingTwo", { first: typingNames[0], second: typingNames[1] })
+      : t("room.typingMany")
+
+  const handleShareFiles = async (files: File[]) => {
+      if (files.length === 0) return
+      const tooLarge = await manager.shareFiles(files)
+      tooLarge.forEach(fileName => toast.error(t("room.fileTooLarge", { name: fileName, size: formatFileSize(MAX_SHARED_FILE_SIZE) })))
+  }
+
+  const handleChatDrop = (e: React.DragEvent) => {
+      e.preventDefault()
+      setIsDraggingFile(false)
+      handleShareFiles(Array.from(e.dataTransfer.files))
+  }
+
+  // Pasting a screenshot shares it; pasting text still goes into the input
+  const handleChatPaste = (e: React.ClipboardEvent) => {
+      const files = Array.from(e.clipboardData.files)
+      if (files.length === 0) return
+      e.preventDefault()
+      handleShareFiles(files)
+  }
+
+  const handleDownloadFile = (fileId: string) => {
+      if (!manager.downloadFile(fileId)) toast.error(t("room.fileDownloadFailed"))
+  }
+
+  const deviceSettings = (theme: 'light' | 'dark') => (
+    <DeviceSettings
+      devices={localMedia.devices}
+      selected={localMedia.selectedDevices}
+      onSelectAudioInput={id => manager.setAudioInput(id)}
+      onSelectVideoInput={id => manager.setVideoInput(id)}
+      onSelectAudioOutput={manager.supportsAudioOutputSelection() ? id => manager.setAudioOutput(id) : undefined}
+      t={t}
+      theme={theme}
+    />
+  )
+
+  const recordingNames = [
+    ...(status.isRecording ? [t("room.you")] : []),
+    ...status.recordingPeers.map(id => participants.find(p => p.id === id)?.name || id)
+  ]
+
+  const raisedHands = manager.getRaisedHands()
+  const remoteParticipants = participants
+    .filter(p => isHost ? p.role !== 'host' : p.id !== manager.getPeerId())
+  const featuredParticipant = remoteParticipants.find(p => p.id === featuredSpeakerId) ?? remoteParticipants[0]
+  // Someone else's screen takes the stage over our own; with several, whoever is talking wins
+  const screenPresenter = remoteParticipants.find(p => p.screenStream && p.id === featuredSpeakerId)
+    ?? remoteParticipants.find(p => p.screenStream)
+  const localScreen = localMedia.isScreenSharing ? localMedia.screenStream : null
+  const stripTile = 'w-32 sm:w-40 aspect-video shrink-0'
+
+  const renderLocalTile = (className: string) => <LocalTile name={t("room.you")} className={className} />
+
+  const renderParticipantTile = (p: Participant, className?: string) => (
+    <ParticipantVideo
+      key={p.id}
+      participant={p}
+      canModerate={isHost}
+      sinkId={localMedia.selectedDevices.audioOutputId}
+      videoPaused={localMedia.isLowBandwidth}
+      className={className}
+      t={t}
+    />
+  )
+
   // --- RENDERERS ---
 
   if (!roomInfo) return <div className="flex h-screen items-center justify-center">{t("common.loading")}</div>
@@ -327,6 +666,23 @@ export default function RoomPage() {
                       className="h-12 bg-white/50"
                     />
                   </div>
+
+                  {roomInfo.requiresPasscode && !password && (
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                        <Lock className="h-4 w-4 text-indigo-600" /> {t("room.meetingPasscode")}
+                      </label>
+                      <Input
+                        type="password"
+                        value={passcode}
+                        onChange={e => setPasscode(e.target.value)}
+                        placeholder={t("room.meetingPasscodePlaceholder")}
+                        className="h-12 bg-white/50"
+                      />
+                    </div>
+                  )}
+
+                  {deviceSettings('light')}
                 </div>
 
                 <Button
@@ -375,9 +731,52 @@ export default function RoomPage() {
              <div className={`w-2 h-2 rounded-full ${isHost ? 'bg-blue-500' : 'bg-green-500'}`}></div>
              {isHost ? t("room.host") : t("room.participant")}
           </span>
+          {recordingNames.length > 0 && (
+            <span className="mt-1 self-start bg-red-600/90 text-white text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded flex items-center gap-1" title={recordingNames.join(', ')}>
+              <Circle className="w-2 h-2 fill-current animate-pulse" /> {t("room.recordingBadge")}
+            </span>
+          )}
+          {status.signalingError === 'lost' && (
+            <span className="mt-1 self-start max-w-xs bg-amber-600/90 text-white text-[11px] px-2 py-0.5 rounded flex items-center gap-1">
+              <WifiOff className="w-3 h-3 shrink-0" /> {t("room.signaling.lost")}
+            </span>
+          )}
         </div>
         
         <div className="flex gap-2 pointer-events-auto">
+            <Button
+                size="icon"
+                variant="ghost"
+                className="text-white hover:bg-white/10"
+                aria-label={layout === 'grid' ? t("room.speakerView") : t("room.gridView")}
+                onClick={() => setLayout(layout === 'grid' ? 'speaker' : 'grid')}
+            >
+                {layout === 'grid' ? <SquareUser className="w-5 h-5" /> : <LayoutGrid className="w-5 h-5" />}
+            </Button>
+
+            <Button
+                size="icon"
+                variant="ghost"
+                className={`text-white hover:bg-white/10 ${showStats ? 'bg-white/20' : ''}`}
+                aria-label={t("room.callStats")}
+                onClick={() => setShowStats(!showStats)}
+            >
+                <Activity className="w-5 h-5" />
+            </Button>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="icon" variant="ghost" className="text-white hover:bg-white/10" aria-label={t("room.exportReport")}>
+                    <FileDown className="w-5 h-5" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExportReport('markdown')}>{t("room.exportMarkdown")}</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExportReport('json')}>{t("room.exportJson")}</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExportReport('csv')}>{t("room.exportCsv")}</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
             <Button size="icon" variant="ghost" className="text-white hover:bg-white/10" onClick={() => setShowQR(true)}>
                 <QrCode className="w-5 h-5" />
             </Button>
@@ -389,7 +788,7 @@ export default function RoomPage() {
                 onClick={() => setShowChat(!showChat)}
             >
                 <MessageSquare className="w-5 h-5" />
-                {meetingState.messages.length > 0 && (
+                {messages.length > 0 && (
                    <span className="absolute top-1 right-1 w-2.5 h-2.5 bg-red-500 rounded-full border-2 border-black"></span>
                 )}
             </Button>
@@ -402,7 +801,7 @@ export default function RoomPage() {
                 onClick={() => setShowLobbyMobile(!showLobbyMobile)}
             >
                 <Users className="w-4 h-4 mr-1" />
-                {meetingState.waitingPeers.length > 0 && (
+                {waitingPeers.length > 0 && (
                 <span className="absolute -top-1 -right-1 flex h-3 w-3">
                     <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
                     <span className="relative inline-flex rounded-full h-3 w-3 bg-red-500"></span>
@@ -417,37 +816,120 @@ export default function RoomPage() {
       <div className="flex-1 flex overflow-hidden mt-16 mb-20 relative">
           {/* Video Grid */}
           <div className={`flex-1 overflow-y-auto p-2 sm:p-4 transition-all duration-300 ${showChat ? 'mr-0 sm:mr-80' : ''}`}>
+             {screenPresenter || localScreen ? (
+             <div className="flex flex-col gap-2 sm:gap-4 max-w-7xl mx-auto h-full">
+                {screenPresenter ? (
+                  <ScreenShareStage
+                    screenStream={screenPresenter.screenStream!}
+                    presenterName={screenPresenter.name}
+                    isLocal={false}
+                    sinkId={localMedia.selectedDevices.audioOutputId}
+                    camera={renderParticipantTile(screenPresenter, 'w-full h-full')}
+                    className="flex-1 min-h-0"
+                  />
+                ) : (
+                  <ScreenShareStage
+                    screenStream={localScreen!}
+                    presenterName={t("room.you")}
+                    isLocal={true}
+                    sinkId={null}
+                    camera={renderLocalTile('w-full h-full')}
+                    className="flex-1 min-h-0"
+                  />
+                )}
+
+                {/* Everyone Else, plus any other screens being shared */}
+                <div className="flex gap-2 overflow-x-auto shrink-0 pb-1">
+                  {screenPresenter && renderLocalTile(stripTile)}
+                  {remoteParticipants
+                    .filter(p => p.id !== screenPresenter?.id)
+                    .map(p => renderParticipantTile(p, stripTile))}
+                  {remoteParticipants
+                    .filter(p => p.screenStream && p.id !== screenPresenter?.id)
+                    .map(p => (
+                      <VideoPlayer
+                        key={`${p.id}:screen`}
+                        stream={p.screenStream!}
+                        name={p.name}
+                        className={stripTile}
+                        isScreenSharing={true}
+                        sinkId={localMedia.selectedDevices.audioOutputId}
+                      />
+                    ))}
+                </div>
+             </div>
+             ) : layout === 'speaker' && featuredParticipant ? (
+             <div className="flex flex-col gap-2 sm:gap-4 max-w-7xl mx-auto h-full">
+                {/* Featured Speaker */}
+                {renderParticipantTile(featuredParticipant, 'flex-1 min-h-0')}
+
+                {/* Everyone Else */}
+                <div className="flex gap-2 overflow-x-auto shrink-0 pb-1">
+                  {renderLocalTile(stripTile)}
+                  {remoteParticipants
+                    .filter(p => p.id !== featuredParticipant.id)
+                    .map(p => renderParticipantTile(p, stripTile))}
+                </div>
+             </div>
+             ) : (
              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 sm:gap-4 auto-rows-fr max-w-7xl mx-auto min-h-full content-start">
                 
                 {/* Local User */}
-                <VideoPlayer
-                  stream={manager.getLocalStream()}
-                  isLocal={true}
-                  name={t("room.you")}
-                  className={`${meetingState.isScreenSharing ? 'col-span-1 sm:col-span-2 row-span-2 aspect-auto' : 'aspect-video'}`}
-                  isScreenSharing={meetingState.isScreenSharing}
-                  isVideoEnabled={localVideoEnabled} // Pass local toggle state
-                />
+                {renderLocalTile('aspect-video')}
 
                 {/* Remote Participants */}
-                {meetingState.participants
-                    .filter(p => isHost ? p.role !== 'host' : p.id !== manager.getPeerId())
-                    .map(p => (
-                    <ParticipantVideo key={p.id} participant={p} />
-                ))}
+                {remoteParticipants.map(p => renderParticipantTile(p))}
 
                 {/* Empty State */}
-                {meetingState.participants.length <= 1 && (
+                {participants.length <= 1 && (
                     <div className="flex flex-col items-center justify-center text-white/30 bg-white/5 rounded-xl border border-white/5 aspect-video p-4 text-center border-dashed">
                         <p className="text-sm">{t("room.waitingForOthers")}</p>
                         <Button variant="link" className="text-blue-400 text-xs h-auto p-0" onClick={() => setShowQR(true)}>{t("room.invitePeople")}</Button>
                     </div>
                 )}
              </div>
+             )}
           </div>
 
+          {/* Raised Hands Queue (Host) */}
+          {isHost && raisedHands.length > 0 && (
+            <div className="absolute top-2 left-2 z-30 w-60 bg-gray-900/95 backdrop-blur-md border border-gray-700 rounded-xl shadow-2xl">
+              <div className="px-3 py-2 border-b border-gray-800 flex justify-between items-center">
+                <span className="text-white text-sm font-semibold flex items-center gap-2">
+                  <Hand className="w-4 h-4 text-amber-400" /> {t("room.raisedHands")} ({raisedHands.length})
+                </span>
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-gray-300 hover:text-white" onClick={() => manager.lowerAllHands()}>
+                  {t("room.lowerAllHands")}
+                </Button>
+              </div>
+              <ol className="max-h-48 overflow-y-auto p-1">
+                {raisedHands.map((p, index) => (
+                  <li key={p.id} className="flex items-center justify-between px-2 py-1.5 rounded-lg hover:bg-white/5">
+                    <span className="text-sm text-gray-200 truncate">
+                      <span className="text-gray-500 mr-2">{index + 1}.</span>
+                      {p.id === manager.getPeerId() ? t("room.you") : p.name}
+                    </span>
+                    <Button variant="ghost" size="icon" className="h-6 w-6 text-gray-400 hover:text-white" onClick={() => manager.lowerHand(p.id)} aria-label={t("room.lowerHand")}>
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
           {/* Chat Sidebar */}
-          <div className={`fixed inset-y-0 right-0 w-full sm:w-80 bg-gray-900 border-l border-gray-800 transform transition-transform duration-300 z-40 flex flex-col ${showChat ? 'translate-x-0' : 'translate-x-full'}`}>
+          <div
+             className={`fixed inset-y-0 right-0 w-full sm:w-80 bg-gray-900 border-l border-gray-800 transform transition-transform duration-300 z-40 flex flex-col ${showChat ? 'translate-x-0' : 'translate-x-full'}`}
+             onDragOver={e => { if (e.dataTransfer.types.includes('Files')) { e.preventDefault(); setIsDraggingFile(true) } }}
+             onDragLeave={e => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false) }}
+             onDrop={handleChatDrop}
+          >
+             {isDraggingFile && (
+                <div className="absolute inset-2 z-10 rounded-lg border-2 border-dashed border-blue-500 bg-gray-900/90 flex items-center justify-center text-blue-300 text-sm pointer-events-none">
+                    {t("room.dropToShare")}
+                </div>
+            )}
              <div className="p-4 border-b border-gray-800 flex justify-between items-center bg-gray-900/95">
                 <h3 className="font-bold text-white flex items-center gap-2">
                     <MessageSquare className="w-4 h-4"/> {t("room.chat")}
@@ -456,42 +938,89 @@ export default function RoomPage() {
              </div>
              
              <div className="flex-1 overflow-y-auto p-4 space-y-4" ref={chatScrollRef}>
-                {meetingState.messages.length === 0 ? (
+                {messages.length === 0 ? (
                     <div className="text-center text-gray-600 text-sm py-10">{t("room.noMessages")}</div>
                 ) : (
-                    meetingState.messages.map((msg) => (
-                        <div key={msg.id} className={`flex flex-col ${msg.senderId === manager.getPeerId() ? 'items-end' : 'items-start'}`}>
-                            {msg.isSystem ? (
-                                <div className="w-full text-center text-xs text-gray-500 my-2 italic">{msg.text}</div>
-                            ) : (
-                                <>
-                                    <span className="text-[10px] text-gray-400 mb-1 px-1">{msg.senderName}</span>
-                                    <div className={`px-3 py-2 rounded-lg max-w-[85%] text-sm ${
-                                        msg.senderId === manager.getPeerId()
-                                        ? 'bg-blue-600 text-white rounded-tr-none'
-                                        : 'bg-gray-800 text-gray-200 rounded-tl-none'
-                                    }`}>
-                                        {msg.text}
-                                    </div>
-                                </>
-                            )}
-                        </div>
+                    messages.map((msg) => (
+                        <ChatMessageItem
+                            key={msg.id}
+                            message={msg}
+                            myId={manager.getPeerId()}
+                            file={msg.fileId ? sharedFiles[msg.fileId] : undefined}
+                            canEdit={manager.canEditMessage(msg)}
+                            canDelete={manager.canDeleteMessage(msg)}
+                            canReact={manager.canReactToMessage(msg)}
+                            nameOf={nameOf}
+                            onEdit={handleStartEdit}
+                            onDelete={id => manager.deleteMessage(id)}
+                            onReact={(id, emoji) => manager.toggleMessageReaction(id, emoji)}
+                            onDownload={handleDownloadFile}
+                            t={t}
+                        />
                     ))
                 )}
              </div>
              
-             <div className="p-3 border-t border-gray-800 bg-gray-900 pb-safe">
+             <div className="px-4 h-5 text-[11px] text-gray-500 italic truncate">{typingLabel}</div>
+
+             <div className="p-3 border-t border-gray-800 bg-gray-900 pb-safe space-y-2">
+                 {!manager.canChat() ? (
+                     <p className="text-xs text-gray-500 text-center py-2">{t("room.chatDisabled")}</p>
+                 ) : (<>
+                 {editingMessageId && (
+                     <div className="flex items-center justify-between text-xs text-blue-300">
+                         <span className="flex items-center gap-1"><Pencil className="w-3 h-3" /> {t("room.editingMessage")}</span>
+                         <button type="button" onClick={handleCancelEdit} className="text-gray-400 hover:text-white">{t("room.cancelEdit")}</button>
+                     </div>
+                 )}
+                 <label className="flex items-center gap-2 text-xs text-gray-400">
+                     {t("room.sendTo")}
+                     <select
+                        value={chatRecipient}
+                        onChange={e => setChatRecipient(e.target.value)}
+                        disabled={!!editingMessageId}
+                        className={`flex-1 h-8 rounded-md border border-gray-700 bg-gray-800 px-2 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 ${chatRecipient ? 'text-purple-300' : 'text-white'}`}
+                     >
+                         <option value="">{t("room.everyone")}</option>
+                         {participants.filter(p => p.id !== manager.getPeerId()).map(p => (
+                             <option key={p.id} value={p.id} disabled={!manager.canMessagePrivately(p.id)}>
+                                 {p.name}
+                             </option>
+                         ))}
+                     </select>
+                 </label>
                  <form onSubmit={handleSendMessage} className="flex gap-2">
+                     <input
+                        ref={fileInputRef}
+                        type="file"
+                        multiple
+                        className="hidden"
+                        onChange={e => { handleShareFiles(Array.from(e.target.files ?? [])); e.target.value = '' }}
+                     />
+                     <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        className="text-gray-400 hover:text-white hover:bg-white/10 shrink-0"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={!!chatRecipient || !!editingMessageId}
+                        title={t("room.shareFile")}
+                     >
+                         <Paperclip className="w-4 h-4" />
+                     </Button>
                      <Input
+                        onPaste={chatRecipient || editingMessageId ? undefined : handleChatPaste}
                         value={chatInput}
-                        onChange={e => setChatInput(e.target.value)}
-                        placeholder={t("room.typeMessage")}
+                        onChange={e => handleChatInput(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Escape' && editingMessageId) handleCancelEdit() }}
+                        placeholder={chatRecipient ? t("room.typePrivateMessage", { name: nameOf(chatRecipient) }) : t("room.typeMessage")}
                         className="bg-gray-800 border-gray-700 text-white focus-visible:ring-blue-500"
                      />
                      <Button type="submit" size="icon" className="bg-blue-600 hover:bg-blue-700">
                          <Send className="w-4 h-4" />
                      </Button>
                  </form>
+                 </>)}
              </div>
           </div>
       </div>
@@ -501,23 +1030,36 @@ export default function RoomPage() {
         <div className="absolute inset-0 z-40 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
            <div className="bg-white rounded-2xl w-full max-w-sm overflow-hidden shadow-2xl">
               <div className="p-4 border-b flex justify-between items-center bg-gray-50">
-                 <h3 className="font-bold text-gray-900">{t("room.waitingRoom")} ({meetingState.waitingPeers.length})</h3>
+                 <h3 className="font-bold text-gray-900">{t("room.waitingRoom")} ({waitingPeers.length})</h3>
                  <Button variant="ghost" size="sm" onClick={() => setShowLobbyMobile(false)}><X className="w-4 h-4"/></Button>
               </div>
               <div className="max-h-[60vh] overflow-y-auto p-2">
-                 {meetingState.waitingPeers.length === 0 ? (
+                 {waitingPeers.length === 0 ? (
                     <div className="text-center py-8 text-gray-500 text-sm">{t("room.noOneWaiting")}</div>
                  ) : (
-                   meetingState.waitingPeers.map(peer => (
+                   waitingPeers.map(peer => (
                      <div key={peer.peerId} className="flex items-center justify-between p-3 border-b border-gray-100 last:border-0 hover:bg-gray-50 rounded-lg">
                         <div className="flex items-center gap-3">
                            <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-bold text-xs">
                               {peer.name.charAt(0).toUpperCase()}
                            </div>
-                           <span className="font-medium text-sm text-gray-900">{peer.name}</span>
+                           <div>
+                              <span className="font-medium text-sm text-gray-900">{peer.name}</span>
+                              {peer.passcode && (
+                                <p className={`text-[11px] ${peer.passcode === 'verified' ? 'text-green-600' : 'text-gray-400'}`}>
+                                  {t(peer.passcode === 'verified' ? "room.passcodeVerified" : "room.passcodeChecking")}
+                                </p>
+                              )}
+                           </div>
                         </div>
                         <div className="flex gap-2">
-                           <Button size="icon" className="h-8 w-8 bg-green-500 hover:bg-green-600 text-white rounded-full" onClick={() => manager.approveParticipant(peer.peerId)}>
+                           <Button
+                             size="icon"
+                             className="h-8 w-8 bg-green-500 hover:bg-green-600 text-white rounded-full"
+                             onClick={() => manager.approveParticipant(peer.peerId)}
+                             disabled={manager.isRoomFull()}
+                             title={manager.isRoomFull() ? t("room.meetingFull") : undefined}
+                           >
                              <Check className="h-4 w-4" />
                            </Button>
                            <Button size="icon" variant="destructive" className="h-8 w-8 rounded-full" onClick={() => manager.rejectParticipant(peer.peerId)}>
@@ -580,13 +1122,138 @@ export default function RoomPage() {
         </div>
       )}
 
-      {/* 5. Bottom Controls */}
+      {/* 5. Device Settings Modal */}
+      {showSettings && (
+        <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200" onClick={() => setShowSettings(false)}>
+           <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-sm overflow-hidden shadow-2xl" onClick={e => e.stopPropagation()}>
+              <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+                 <h3 className="font-bold text-white flex items-center gap-2"><Settings className="w-4 h-4" /> {t("room.settings")}</h3>
+                 <Button variant="ghost" size="sm" onClick={() => setShowSettings(false)}><X className="w-4 h-4 text-gray-400"/></Button>
+              </div>
+              <div className="p-4 space-y-4">
+                 {deviceSettings('dark')}
+
+                 <div className="pt-4 border-t border-gray-800">
+                    <AudioProcessingSettings
+                       settings={localMedia.audioProcessing}
+                       isPushToTalk={localMedia.isPushToTalk}
+                       onChange={settings => manager.setAudioProcessing(settings)}
+                       onPushToTalkChange={enabled => manager.setPushToTalk(enabled)}
+                       t={t}
+                    />
+                 </div>
+
+                 <label className="flex items-start justify-between gap-3 pt-4 border-t border-gray-800 cursor-pointer">
+                    <span>
+                       <span className="block text-sm font-medium text-white">{t("room.lowBandwidth")}</span>
+                       <span className="block text-xs text-gray-400">{t("room.lowBandwidthDescription")}</span>
+                    </span>
+                    <input
+                       type="checkbox"
+                       checked={localMedia.isLowBandwidth}
+                       onChange={e => manager.setLowBandwidth(e.target.checked)}
+                       className="mt-1 h-4 w-4 accent-blue-500"
+                    />
+                 </label>
+
+                 {isHost && (
+                   <label className="flex items-start justify-between gap-3 pt-4 border-t border-gray-800 cursor-pointer">
+                      <span>
+                         <span className="block text-sm font-medium text-white">{t("room.shareChatHistory")}</span>
+                         <span className="block text-xs text-gray-400">{t("room.shareChatHistoryDescription")}</span>
+                      </span>
+                      <input
+                         type="checkbox"
+                         checked={status.shareChatHistory}
+                         onChange={e => handleChatHistorySharing(e.target.checked)}
+                         className="mt-1 h-4 w-4 accent-blue-500"
+                      />
+                   </label>
+                 )}
+
+                 {isHost && (
+                   <div className="pt-4 border-t border-gray-800 space-y-3">
+                      <span className="block text-sm font-medium text-white">{t("room.roomSettings")}</span>
+                      {ROOM_SETTING_FLAGS.map(flag => (
+                        <label key={flag} className="flex items-center justify-between gap-3 cursor-pointer">
+                           <span className="text-xs text-gray-300">{t(`room.roomSetting.${flag}`)}</span>
+                           <input
+                              type="checkbox"
+                              checked={status.roomSettings[flag]}
+                              onChange={e => handleRoomSettingsChange({ [flag]: e.target.checked })}
+                              className="h-4 w-4 accent-blue-500"
+                           />
+                        </label>
+                      ))}
+                      <label className="flex items-center justify-between gap-3">
+                         <span className="text-xs text-gray-300">{t("room.roomSetting.maxParticipants")}</span>
+                         <select
+                            value={status.roomSettings.maxParticipants}
+                            onChange={e => handleRoomSettingsChange({ maxParticipants: Number(e.target.value) })}
+                            className="h-8 rounded-md border border-gray-700 bg-gray-800 px-2 text-xs text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                         >
+                            {Array.from(new Set([...MAX_PARTICIPANT_CHOICES, status.roomSettings.maxParticipants]))
+                              .sort((a, b) => a - b)
+                              .map(n => <option key={n} value={n}>{n}</option>)}
+                         </select>
+                      </label>
+                      <label className="flex items-center justify-between gap-3">
+                         <span>
+                            <span className="block text-xs text-gray-300">{t("room.roomSetting.topology")}</span>
+                            <span className="block text-[11px] text-gray-500">{t(`room.topologyActive.${status.topology}`)}</span>
+                         </span>
+                         <select
+                            value={status.roomSettings.topology}
+                            onChange={e => handleRoomSettingsChange({ topology: e.target.value as TopologyMode })}
+                            className="h-8 rounded-md border border-gray-700 bg-gray-800 px-2 text-xs text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                         >
+                            {TOPOLOGY_MODES.map(mode => <option key={mode} value={mode}>{t(`room.topology.${mode}`)}</option>)}
+                         </select>
+                      </label>
+                   </div>
+                 )}
+
+                 <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full justify-start gap-2 text-gray-300 hover:text-white hover:bg-white/10"
+                    onClick={() => { setShowSettings(false); setShowShortcuts(true) }}
+                 >
+                    <Keyboard className="w-4 h-4" /> {t("room.keyboardShortcuts")}
+                 </Button>
+              </div>
+           </div>
+        </div>
+      )}
+
+      {/* Keyboard Shortcuts Help */}
+      {showShortcuts && (
+        <ShortcutsHelp isPushToTalk={localMedia.isPushToTalk} onClose={() => setShowShortcuts(false)} t={t} />
+      )}
+
+      {/* 6. Call Statistics Modal */}
+      {showStats && (
+        <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200" onClick={() => setShowStats(false)}>
+           <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-md max-h-[80vh] flex flex-col overflow-hidden shadow-2xl" onClick={e => e.stopPropagation()}>
+              <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+                 <h3 className="font-bold text-white flex items-center gap-2"><Activity className="w-4 h-4" /> {t("room.callStats")}</h3>
+                 <Button variant="ghost" size="sm" onClick={() => setShowStats(false)}><X className="w-4 h-4 text-gray-400"/></Button>
+              </div>
+              <div className="p-4 overflow-y-auto">
+                 <LiveCallStats participants={remoteParticipants} t={t} />
+              </div>
+           </div>
+        </div>
+      )}
+
+      {/* 7. Bottom Controls */}
       <div className="fixed bottom-6 left-0 right-0 z-30 flex justify-center pointer-events-none pb-safe">
        <div className="bg-gray-900/90 backdrop-blur-xl border border-gray-700 rounded-2xl px-4 py-3 shadow-2xl flex items-center gap-3 pointer-events-auto">
          <Button
            variant="ghost"
            size="icon"
            onClick={() => manager.toggleAudio()}
+           title={localMedia.isPushToTalk ? t("room.holdSpaceToTalk") : undefined}
            className={`h-12 w-12 rounded-xl transition-all ${!localAudioEnabled ? 'bg-red-500/90 text-white hover:bg-red-600' : 'bg-gray-800 text-white hover:bg-gray-700'}`}
          >
             {!localAudioEnabled ? <MicOff className="h-5 w-5" /> : <Mic className="h-5 w-5" />}
@@ -601,16 +1268,91 @@ export default function RoomPage() {
             {!localVideoEnabled ? <VideoOff className="h-5 w-5" /> : <VideoIcon className="h-5 w-5" />}
          </Button>
 
+         {manager.canShareScreen() && (
+           <Button
+             variant="ghost"
+             size="icon"
+             onClick={() => {
+                 if (localMedia.isScreenSharing) manager.stopScreenShare();
+                 else manager.startScreenShare();
+             }}
+             className={`h-12 w-12 rounded-xl transition-all ${localMedia.isScreenSharing ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-800 text-white hover:bg-gray-700'}`}
+           >
+              {localMedia.isScreenSharing ? <MonitorOff className="h-5 w-5" /> : <Monitor className="h-5 w-5" />}
+           </Button>
+         )}
+
+         <Button
+           variant="ghost"
+           size="icon"
+           onClick={() => manager.toggleHand()}
+           aria-label={localMedia.isHandRaised ? t("room.lowerHand") : t("room.raiseHand")}
+           className={`h-12 w-12 rounded-xl transition-all ${localMedia.isHandRaised ? 'bg-amber-400 text-black hover:bg-amber-300' : 'bg-gray-800 text-white hover:bg-gray-700'}`}
+         >
+            <Hand className="h-5 w-5" />
+         </Button>
+
+         <DropdownMenu>
+           <DropdownMenuTrigger asChild>
+             <Button
+               variant="ghost"
+               size="icon"
+               aria-label={t("room.sendReaction")}
+               className="h-12 w-12 rounded-xl transition-all bg-gray-800 text-white hover:bg-gray-700"
+             >
+                <SmilePlus className="h-5 w-5" />
+             </Button>
+           </DropdownMenuTrigger>
+           <DropdownMenuContent side="top" className="flex gap-1 p-2">
+             {REACTION_EMOJIS.map(emoji => (
+               <DropdownMenuItem key={emoji} className="text-2xl px-2 cursor-pointer" onClick={() => manager.sendReaction(emoji)}>
+                 {emoji}
+               </DropdownMenuItem>
+             ))}
+           </DropdownMenuContent>
+         </DropdownMenu>
+
+         {manager.canRecord() && (status.isRecording ? (
+           <Button
+             variant="ghost"
+             size="icon"
+             onClick={handleStopRecording}
+             aria-label={t("room.stopRecording")}
+             className="h-12 w-12 rounded-xl transition-all bg-red-600 text-white hover:bg-red-700"
+           >
+              <Square className="h-5 w-5 fill-current" />
+           </Button>
+         ) : (
+           <DropdownMenu>
+             <DropdownMenuTrigger asChild>
+               <Button
+                 variant="ghost"
+                 size="icon"
+                 aria-label={t("room.startRecording")}
+                 className="h-12 w-12 rounded-xl transition-all bg-gray-800 text-white hover:bg-gray-700"
+               >
+                  <Circle className="h-5 w-5 text-red-500 fill-current" />
+               </Button>
+             </DropdownMenuTrigger>
+             <DropdownMenuContent side="top">
+               {(['grid', 'speaker'] as RecordingLayout[]).map(recordingLayout => (
+                 <DropdownMenuItem key={recordingLayout} onClick={() => manager.startRecording(recordingLayout)}>
+                   {recordingLayout === 'grid' ? <LayoutGrid className="w-4 h-4 mr-2" /> : <SquareUser className="w-4 h-4 mr-2" />}
+                   {t(recordingLayout === 'grid' ? "room.recordGrid" : "room.recordSpeaker")}
+                 </DropdownMenuItem>
+               ))}
+             </DropdownMenuContent>
+           </DropdownMenu>
+         ))}
+
          <Button
            variant="ghost"
            size="icon"
-           onClick={() => {
-               if (meetingState.isScreenSharing) manager.stopScreenShare();
-               else manager.startScreenShare();
-           }}
-           className={`h-12 w-12 rounded-xl transition-all ${meetingState.isScreenSharing ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-800 text-white hover:bg-gray-700'}`}
+           onClick={() => setShowSettings(true)}
+           aria-label={t("room.settings")}
+           className="h-12 w-12 rounded-xl transition-all bg-gray-800 text-white hover:bg-gray-700"
          >
-            {meetingState.isScreenSharing ? <MonitorOff className="h-5 w-5" /> : <Monitor className="h-5 w-5" />}
+            <Settings className="h-5 w-5" />
          </Button>
 
          <div className="w-px h-8 bg-gray-700 mx-1"></div>
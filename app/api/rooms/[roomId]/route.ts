@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { roomService } from '@/services/room-service'
+import { pickRoomSettings } from '@/lib/room-settings'
 
 export async function GET(
   request: NextRequest,
@@ -21,23 +22,53 @@ export async function GET(
     success: true,
     room: roomService.sanitize(room),
     isHost,
-    hostPeerId: room.hostPeerId // Needed for participants to connect to host
+    hostPeerId: room.hostPeerId, // Needed for participants to connect to host
+    // The host enforces the room's switches and hands them to everyone it admits
+    ...(isHost ? { settings: pickRoomSettings(room.settings) } : {}),
+    // Only the host checks joiners' passcodes
+    ...(isHost && room.participantPasscode
+      ? { participantPasscode: room.participantPasscode, autoAdmitWithPasscode: !!room.settings.autoAdmitWithPasscode }
+      : {})
   })
 }
 
-// Called by Host to update their PeerID
+// Called by Host to update their PeerID or name a successor, or by that successor taking over after the host dropped
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ roomId: string }> }
 ) {
   const { roomId } = await params
   const body = await request.json()
-  const { password, hostPeerId } = body
+  const { password, hostPeerId, hostToken, successionToken, previousHostPeerId, successorPeerId } = body
+
+  // Host migration: the successor the host named proves it with the token only it was given
+  if (!password && previousHostPeerId) {
+    if (!hostPeerId || !successionToken || !hostToken) {
+      return NextResponse.json({ success: false, error: 'Host Peer ID, succession token and host token are required' }, { status: 400 })
+    }
+
+    const result = await roomService.migrateHost(roomId, successionToken, previousHostPeerId, hostPeerId, hostToken)
+    if (!result.success) {
+      const status = result.error === 'Room not found' ? 404 : result.error === 'Host has already changed' ? 409 : 401
+      return NextResponse.json({ success: false, error: result.error }, { status })
+    }
+    return NextResponse.json({ success: true })
+  }
+
+  // The current host, original or not, names who takes over if it drops
+  if (!password && hostToken) {
+    const result = await roomService.nameSuccessor(roomId, hostToken, hostPeerId, successorPeerId ?? null, successionToken ?? null)
+    if (!result.success) {
+      const status = result.error === 'Room not found' ? 404 : result.error === 'Not the host' ? 401 : 500
+      return NextResponse.json({ success: false, error: result.error }, { status })
+    }
+    return NextResponse.json({ success: true })
+  }
 
   // Check authentication via password only
   const isValid = await roomService.verifyMasterPassword(roomId, password)
   if (!isValid) return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
 
-  await roomService.updateHostPeerId(roomId, hostPeerId)
+  await roomService.updateHostPeerId(roomId, hostPeerId, hostToken)
   return NextResponse.json({ success: true })
 }
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { roomService } from '@/services/room-service'
+import { parseRoomSettings } from '@/lib/room-settings'
+
+// Host only: change some of the room's feature switches; the rest keep their values
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params
+    const body = await request.json()
+
+    const isValid = body.password && await roomService.verifyMasterPassword(roomId, body.password)
+    if (!isValid) return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+
+    const settings = parseRoomSettings(body.settings)
+    if (!settings) {
+      return NextResponse.json({ success: false, error: 'Invalid room settings' }, { status: 400 })
+    }
+
+    const result = await roomService.updateSettings(roomId, settings)
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.error === 'Room not found' ? 404 : 500 })
+    }
+    return NextResponse.json({ success: true, settings: result.settings })
+  } catch (error) {
+    console.error(error)
+    return NextResponse.json({ success: false, error: 'Internal Server Error' }, { status: 500 })
+  }
+}
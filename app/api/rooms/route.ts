@@ -1,16 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { roomService } from '@/services/room-service'
+import { parseRoomSettings } from '@/lib/room-settings'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { title, password } = body
+    const { title, password, participantPasscode, autoAdmitWithPasscode } = body
+    const settings = parseRoomSettings(body.settings)
 
     if (!title || !password) {
       return NextResponse.json({ success: false, error: 'Title and password required' }, { status: 400 })
     }
+    if (participantPasscode !== undefined && (typeof participantPasscode !== 'string' || participantPasscode.length > 100)) {
+      return NextResponse.json({ success: false, error: 'Invalid participant passcode' }, { status: 400 })
+    }
+    if (participantPasscode && participantPasscode === password) {
+      return NextResponse.json({ success: false, error: 'Participant passcode must differ from the host password' }, { status: 400 })
+    }
+    if (!settings) {
+      return NextResponse.json({ success: false, error: 'Invalid room settings' }, { status: 400 })
+    }
 
-    const room = await roomService.createRoom(title, password)
+    const room = await roomService.createRoom(title, password, {
+      participantPasscode: participantPasscode || undefined,
+      autoAdmitWithPasscode: autoAdmitWithPasscode === true,
+      settings
+    })
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { SignalingConfigError, signalingConfigFromEnv } from '@/lib/signaling-config'
+
+// Read per request, so a deployment can move its PeerServer without a rebuild
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, config: signalingConfigFromEnv() })
+  } catch (error) {
+    if (error instanceof SignalingConfigError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    }
+    console.error(error)
+    return NextResponse.json({ success: false, error: 'Internal Server Error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { AudioProcessingSettings as Settings } from "@/lib/types";
+import { MAX_INPUT_GAIN } from "@/lib/audio-processing";
+
+interface AudioProcessingSettingsProps {
+  settings: Settings;
+  isPushToTalk: boolean;
+  onChange: (settings: Partial<Settings>) => void;
+  onPushToTalkChange: (enabled: boolean) => void;
+  t: (key: string) => string;
+}
+
+const FLAGS = ["noiseSuppression", "echoCancellation", "noiseGate"] as const;
+
+export function AudioProcessingSettings({ settings, isPushToTalk, onChange, onPushToTalkChange, t }: AudioProcessingSettingsProps) {
+  return (
+    <div className="space-y-3">
+      <label className="block space-y-1">
+        <span className="flex justify-between text-xs font-medium text-gray-300">
+          {t("room.inputGain")}
+          <span className="text-gray-500">{Math.round(settings.inputGain * 100)}%</span>
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={MAX_INPUT_GAIN}
+          step={0.1}
+          value={settings.inputGain}
+          onChange={e => onChange({ inputGain: Number(e.target.value) })}
+          className="w-full accent-blue-500"
+        />
+      </label>
+
+      {FLAGS.map(flag => (
+        <label key={flag} className="flex items-center justify-between gap-3 cursor-pointer">
+          <span className="text-xs text-gray-300">{t(`room.${flag}`)}</span>
+          <input
+            type="checkbox"
+            checked={settings[flag]}
+            onChange={e => onChange({ [flag]: e.target.checked })}
+            className="h-4 w-4 accent-blue-500"
+          />
+        </label>
+      ))}
+
+      <label className="flex items-start justify-between gap-3 cursor-pointer">
+        <span>
+          <span className="block text-xs text-gray-300">{t("room.pushToTalk")}</span>
+          <span className="block text-[11px] text-gray-500">{t("room.pushToTalkDescription")}</span>
+        </span>
+        <input
+          type="checkbox"
+          checked={isPushToTalk}
+          onChange={e => onPushToTalkChange(e.target.checked)}
+          className="mt-0.5 h-4 w-4 accent-blue-500"
+        />
+      </label>
+    </div>
+  );
+}
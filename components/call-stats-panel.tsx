@@ -0,0 +1,69 @@
+"use client";
+
+import { CallStats, Participant } from "@/lib/types";
+import { SignalIndicator } from "@/components/signal-indicator";
+
+interface CallStatsPanelProps {
+  participants: Participant[];
+  stats: Record<string, CallStats>;
+  t: (key: string) => string;
+}
+
+function formatBitrate(bps: number | null) {
+  if (bps === null) return "—";
+  if (bps >= 1_000_000) return `${(bps / 1_000_000).toFixed(1)} Mbps`;
+  return `${Math.round(bps / 1000)} kbps`;
+}
+
+function formatMs(ms: number | null) {
+  return ms === null ? "—" : `${Math.round(ms)} ms`;
+}
+
+function formatPercent(fraction: number | null) {
+  return fraction === null ? "—" : `${(fraction * 100).toFixed(1)}%`;
+}
+
+function StatRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span className="text-gray-400">{label}</span>
+      <span className="text-white font-mono">{value}</span>
+    </div>
+  );
+}
+
+export function CallStatsPanel({ participants, stats, t }: CallStatsPanelProps) {
+  if (participants.length === 0) {
+    return <div className="text-center py-8 text-gray-500 text-sm">{t("room.noCallStats")}</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {participants.map(p => {
+        const s = stats[p.id];
+        return (
+          <div key={p.id} className="bg-gray-800 rounded-lg p-3 text-xs space-y-1">
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-medium text-sm text-white truncate">{p.name}</span>
+              <SignalIndicator quality={s?.quality ?? "unknown"} label={t(`room.quality.${s?.quality ?? "unknown"}`)} />
+            </div>
+            {s ? (
+              <>
+                <StatRow label={t("room.stats.rtt")} value={formatMs(s.rtt)} />
+                <StatRow label={t("room.stats.packetLoss")} value={formatPercent(s.packetLoss)} />
+                <StatRow label={t("room.stats.jitter")} value={formatMs(s.jitter)} />
+                <StatRow label={t("room.stats.inbound")} value={formatBitrate(s.inboundBitrate)} />
+                <StatRow label={t("room.stats.outbound")} value={formatBitrate(s.outboundBitrate)} />
+                <StatRow label={t("room.stats.resolution")} value={s.resolution ? `${s.resolution.width}×${s.resolution.height}` : "—"} />
+                <StatRow label={t("room.stats.frameRate")} value={s.frameRate === null ? "—" : `${Math.round(s.frameRate)} fps`} />
+                <StatRow label={t("room.stats.route")} value={s.candidateType ? t(`room.stats.candidate.${s.candidateType}`) : "—"} />
+              </>
+            ) : (
+              <p className="text-gray-500">{t("room.stats.collecting")}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { Pencil, Trash2, SmilePlus } from "lucide-react";
+import { ChatMessage, SharedFile } from "@/lib/types";
+import { REACTION_EMOJIS, ReactionEmoji } from "@/lib/meeting-protocol";
+import { SharedFileCard } from "@/components/shared-file-card";
+import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem } from "@/components/ui/dropdown-menu";
+
+interface ChatMessageItemProps {
+  message: ChatMessage;
+  myId: string | undefined;
+  file?: SharedFile;
+  canEdit: boolean;
+  canDelete: boolean;
+  canReact: boolean;
+  nameOf: (peerId: string) => string;
+  onEdit: (message: ChatMessage) => void;
+  onDelete: (messageId: string) => void;
+  onReact: (messageId: string, emoji: ReactionEmoji) => void;
+  onDownload: (fileId: string) => void;
+  t: (key: string, params?: Record<string, string | number>) => string;
+}
+
+const actionClass = "p-1 rounded text-gray-500 hover:text-white hover:bg-white/10";
+
+export function ChatMessageItem({
+  message, myId, file, canEdit, canDelete, canReact, nameOf, onEdit, onDelete, onReact, onDownload, t
+}: ChatMessageItemProps) {
+  const isOwn = message.senderId === myId;
+
+  if (message.isSystem) {
+    return <div className="w-full text-center text-xs text-gray-500 my-2 italic">{message.text}</div>;
+  }
+
+  const reactions = Object.entries(message.reactions ?? {});
+  const bubbleClass = message.recipientId
+    ? `bg-purple-900/60 text-purple-50 border border-purple-500/40 ${isOwn ? "rounded-tr-none" : "rounded-tl-none"}`
+    : isOwn
+    ? "bg-blue-600 text-white rounded-tr-none"
+    : "bg-gray-800 text-gray-200 rounded-tl-none";
+
+  return (
+    <div className={`group flex flex-col ${isOwn ? "items-end" : "items-start"}`}>
+      <span className="text-[10px] text-gray-400 mb-1 px-1">
+        {message.senderName}
+        {message.recipientId && (
+          <span className="ml-1 text-purple-300">
+            · {isOwn ? t("room.privateTo", { name: nameOf(message.recipientId) }) : t("room.privateFromLabel")}
+          </span>
+        )}
+      </span>
+
+      <div className={`flex items-center gap-1 max-w-full ${isOwn ? "flex-row-reverse" : ""}`}>
+        {message.deleted ? (
+          <div className="px-3 py-2 rounded-lg text-sm italic text-gray-500 border border-gray-800">{t("room.messageDeleted")}</div>
+        ) : file ? (
+          <SharedFileCard file={file} isOwn={isOwn} recipientName={nameOf} onDownload={onDownload} t={t} />
+        ) : (
+          <div className={`px-3 py-2 rounded-lg max-w-[85%] text-sm break-words ${bubbleClass}`}>
+            {message.text}
+          </div>
+        )}
+
+        {!message.deleted && (canEdit || canDelete || canReact) && (
+          <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+            {canReact && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button type="button" className={actionClass} aria-label={t("room.reactToMessage")}>
+                    <SmilePlus className="w-3.5 h-3.5" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent side="top" className="flex gap-1 p-1">
+                  {REACTION_EMOJIS.map(emoji => (
+                    <DropdownMenuItem key={emoji} className="text-lg px-1.5 cursor-pointer" onClick={() => onReact(message.id, emoji)}>
+                      {emoji}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {canEdit && (
+              <button type="button" className={actionClass} onClick={() => onEdit(message)} aria-label={t("room.editMessage")}>
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+            )}
+            {canDelete && (
+              <button type="button" className={actionClass} onClick={() => onDelete(message.id)} aria-label={t("room.deleteMessage")}>
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {message.editedAt && !message.deleted && (
+        <span className="text-[10px] text-gray-500 mt-0.5 px-1">{t("room.edited")}</span>
+      )}
+
+      {reactions.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {reactions.map(([emoji, peers]) => {
+            const mine = !!myId && peers.includes(myId);
+            return (
+              <button
+                key={emoji}
+                type="button"
+                onClick={() => canReact && onReact(message.id, emoji as ReactionEmoji)}
+                title={peers.map(nameOf).join(", ")}
+                className={`px-1.5 py-0.5 rounded-full text-xs border ${mine ? "bg-blue-600/30 border-blue-500 text-white" : "bg-gray-800 border-gray-700 text-gray-300"}`}
+              >
+                {emoji} {peers.length}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
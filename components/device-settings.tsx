@@ -0,0 +1,101 @@
+"use client";
+
+import { Mic, Video, Volume2 } from "lucide-react";
+import { MediaDeviceOption, MeetingDevices, MediaDeviceSelection } from "@/lib/types";
+
+interface DeviceSettingsProps {
+  devices: MeetingDevices;
+  selected: MediaDeviceSelection;
+  onSelectAudioInput: (deviceId: string) => void;
+  onSelectVideoInput: (deviceId: string) => void;
+  onSelectAudioOutput?: (deviceId: string | null) => void; // Omit where setSinkId is unsupported
+  t: (key: string) => string;
+  theme?: "light" | "dark";
+}
+
+interface DeviceSelectProps {
+  icon: React.ReactNode;
+  label: string;
+  options: MediaDeviceOption[];
+  value: string | null;
+  fallbackLabel: string; // For devices without a label
+  defaultLabel: string;
+  allowDefault?: boolean;
+  onChange: (deviceId: string | null) => void;
+  theme: "light" | "dark";
+}
+
+function DeviceSelect({ icon, label, options, value, fallbackLabel, defaultLabel, allowDefault = false, onChange, theme }: DeviceSelectProps) {
+  const selectClass = theme === "dark"
+    ? "bg-gray-800 border-gray-700 text-white"
+    : "bg-white/50 border-gray-200 text-gray-900";
+
+  return (
+    <div className="space-y-1">
+      <label className={`text-xs font-medium flex items-center gap-2 ${theme === "dark" ? "text-gray-300" : "text-gray-700"}`}>
+        {icon} {label}
+      </label>
+      <select
+        value={value ?? ""}
+        onChange={e => onChange(e.target.value || null)}
+        disabled={options.length === 0}
+        className={`w-full h-10 rounded-md border px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 ${selectClass}`}
+      >
+        {(allowDefault || value === null) && <option value="">{defaultLabel}</option>}
+        {options.map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label || `${fallbackLabel} ${index + 1}`}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export function DeviceSettings({
+  devices,
+  selected,
+  onSelectAudioInput,
+  onSelectVideoInput,
+  onSelectAudioOutput,
+  t,
+  theme = "light",
+}: DeviceSettingsProps) {
+  return (
+    <div className="space-y-3">
+      <DeviceSelect
+        icon={<Video className="w-4 h-4 text-indigo-600" />}
+        label={t("room.camera")}
+        options={devices.videoInput}
+        value={selected.videoInputId}
+        fallbackLabel={t("room.camera")}
+        defaultLabel={t("room.systemDefault")}
+        onChange={id => id && onSelectVideoInput(id)}
+        theme={theme}
+      />
+      <DeviceSelect
+        icon={<Mic className="w-4 h-4 text-indigo-600" />}
+        label={t("room.microphone")}
+        options={devices.audioInput}
+        value={selected.audioInputId}
+        fallbackLabel={t("room.microphone")}
+        defaultLabel={t("room.systemDefault")}
+        onChange={id => id && onSelectAudioInput(id)}
+        theme={theme}
+      />
+      {onSelectAudioOutput && (
+        <DeviceSelect
+          icon={<Volume2 className="w-4 h-4 text-indigo-600" />}
+          label={t("room.speaker")}
+          options={devices.audioOutput}
+          value={selected.audioOutputId}
+          fallbackLabel={t("room.speaker")}
+          defaultLabel={t("room.systemDefault")}
+          allowDefault
+          onChange={onSelectAudioOutput}
+          theme={theme}
+        />
+      )}
+    </div>
+  );
+}
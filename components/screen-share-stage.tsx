@@ -0,0 +1,31 @@
+"use client";
+
+import { ReactNode } from "react";
+import { VideoPlayer } from "@/components/video-player";
+
+interface ScreenShareStageProps {
+  screenStream: MediaStream;
+  presenterName: string;
+  isLocal: boolean;
+  sinkId: string | null; // Plays the screen's own audio on remote shares
+  camera: ReactNode; // The presenter's camera tile, drawn small over the screen
+  className?: string;
+}
+
+export function ScreenShareStage({ screenStream, presenterName, isLocal, sinkId, camera, className = "" }: ScreenShareStageProps) {
+  return (
+    <div className={`relative ${className}`}>
+      <VideoPlayer
+        stream={screenStream}
+        isLocal={isLocal}
+        name={presenterName}
+        className="w-full h-full"
+        isScreenSharing={true}
+        sinkId={sinkId}
+      />
+      <div className="absolute top-2 right-2 z-20 w-28 sm:w-44 aspect-video shadow-lg rounded-xl">
+        {camera}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { Download, FileIcon, Loader2, AlertCircle } from "lucide-react";
+import { SharedFile } from "@/lib/types";
+import { formatFileSize } from "@/lib/utils";
+import { isImageType } from "@/lib/file-transfer";
+
+interface SharedFileCardProps {
+  file: SharedFile;
+  isOwn: boolean;
+  recipientName: (peerId: string) => string;
+  onDownload: (fileId: string) => void;
+  t: (key: string, params?: Record<string, string | number>) => string;
+}
+
+export function SharedFileCard({ file, isOwn, recipientName, onDownload, t }: SharedFileCardProps) {
+  // Once the whole image is here it replaces the thumbnail
+  const preview = file.url && isImageType(file.mimeType) ? file.url : file.thumbnail;
+  const uploads = Object.entries(file.uploads);
+
+  return (
+    <div className={`w-56 rounded-lg overflow-hidden text-sm ${isOwn ? "bg-blue-600 text-white rounded-tr-none" : "bg-gray-800 text-gray-200 rounded-tl-none"}`}>
+      {preview && <img src={preview} alt={file.name} className="w-full max-h-48 object-contain bg-black/30" />}
+      <div className="p-2 space-y-2">
+        <div className="flex items-center gap-2 min-w-0">
+          {!preview && <FileIcon className="w-4 h-4 shrink-0" />}
+          <div className="min-w-0 flex-1">
+            <p className="truncate font-medium" title={file.name}>{file.name}</p>
+            <p className="text-[10px] opacity-70">{formatFileSize(file.size)}</p>
+          </div>
+          {file.status === "complete" && file.url && (
+            <a href={file.url} download={file.name} className="p-1 rounded hover:bg-white/10" title={t("room.saveFile")}>
+              <Download className="w-4 h-4" />
+            </a>
+          )}
+          {(file.status === "available" || file.status === "failed") && (
+            <button type="button" onClick={() => onDownload(file.id)} className="p-1 rounded hover:bg-white/10" title={t("room.downloadFile")}>
+              <Download className="w-4 h-4" />
+            </button>
+          )}
+          {file.status === "downloading" && <Loader2 className="w-4 h-4 animate-spin shrink-0" />}
+        </div>
+
+        {file.status === "downloading" && (
+          <div className="h-1 rounded bg-white/20 overflow-hidden">
+            <div className="h-full bg-green-400 transition-all" style={{ width: `${Math.round(file.progress * 100)}%` }} />
+          </div>
+        )}
+        {file.status === "failed" && (
+          <p className="flex items-center gap-1 text-[10px] text-red-300"><AlertCircle className="w-3 h-3" /> {t("room.fileDownloadFailed")}</p>
+        )}
+        {file.status === "unavailable" && (
+          <p className="text-[10px] opacity-70">{t("room.fileUnavailable")}</p>
+        )}
+
+        {isOwn && uploads.length > 0 && (
+          <div className="space-y-0.5 text-[10px] opacity-80">
+            {uploads.map(([peerId, progress]) => (
+              <div key={peerId} className="flex justify-between gap-2">
+                <span className="truncate">{recipientName(peerId)}</span>
+                <span>{progress >= 1 ? t("room.fileDelivered") : `${Math.round(progress * 100)}%`}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { Keyboard, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SHORTCUT_KEYS, ShortcutAction } from "@/hooks/use-meeting-shortcuts";
+
+interface ShortcutsHelpProps {
+  isPushToTalk: boolean;
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+function Key({ children }: { children: React.ReactNode }) {
+  return (
+    <kbd className="min-w-[2rem] px-2 py-1 rounded-md border border-gray-600 bg-gray-800 text-xs font-mono text-white text-center shadow-sm">
+      {children}
+    </kbd>
+  );
+}
+
+export function ShortcutsHelp({ isPushToTalk, onClose, t }: ShortcutsHelpProps) {
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-sm overflow-hidden shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+          <h3 className="font-bold text-white flex items-center gap-2"><Keyboard className="w-4 h-4" /> {t("room.keyboardShortcuts")}</h3>
+          <Button variant="ghost" size="sm" onClick={onClose}><X className="w-4 h-4 text-gray-400" /></Button>
+        </div>
+        <ul className="p-4 space-y-2">
+          {(Object.keys(SHORTCUT_KEYS) as ShortcutAction[]).map(action => (
+            <li key={action} className="flex items-center justify-between text-sm text-gray-300">
+              {t(`room.shortcut.${action}`)}
+              <Key>{SHORTCUT_KEYS[action].toUpperCase()}</Key>
+            </li>
+          ))}
+          <li className="flex items-center justify-between text-sm text-gray-300">
+            <span>
+              {t("room.shortcut.pushToTalk")}
+              {!isPushToTalk && <span className="block text-xs text-gray-500">{t("room.shortcut.pushToTalkOff")}</span>}
+            </span>
+            <Key>{t("room.shortcut.space")}</Key>
+          </li>
+        </ul>
+      </div>
+    </div>
+  );
+}
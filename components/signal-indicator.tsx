@@ -0,0 +1,41 @@
+"use client";
+
+import { ConnectionQuality } from "@/lib/types";
+
+const QUALITY_BARS: Record<ConnectionQuality, number> = {
+  excellent: 4,
+  good: 3,
+  poor: 2,
+  bad: 1,
+  unknown: 0,
+};
+
+const QUALITY_COLORS: Record<ConnectionQuality, string> = {
+  excellent: "bg-green-400",
+  good: "bg-green-400",
+  poor: "bg-amber-400",
+  bad: "bg-red-500",
+  unknown: "bg-gray-500",
+};
+
+interface SignalIndicatorProps {
+  quality: ConnectionQuality;
+  label?: string;
+  className?: string;
+}
+
+export function SignalIndicator({ quality, label, className = "" }: SignalIndicatorProps) {
+  const filled = QUALITY_BARS[quality];
+
+  return (
+    <div className={`flex items-end gap-0.5 h-3 ${className}`} role="img" aria-label={label ?? quality} title={label ?? quality}>
+      {[1, 2, 3, 4].map(bar => (
+        <span
+          key={bar}
+          className={`w-1 rounded-sm ${bar <= filled ? QUALITY_COLORS[quality] : "bg-white/30"}`}
+          style={{ height: `${bar * 25}%` }}
+        />
+      ))}
+    </div>
+  );
+}
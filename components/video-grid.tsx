@@ -5,6 +5,7 @@ import { Participant } from "@/lib/types";
 import { Video, VideoOff, Mic, MicOff, Users } from "lucide-react";
 import { VideoPlayer } from "@/components/video-player";
 import { getTranslations } from "@/lib/client-i18n";
+import { SPEAKING_THRESHOLD } from "@/lib/audio-level-monitor";
 
 interface VideoGridProps {
   participants: Participant[];
@@ -16,6 +17,9 @@ interface VideoGridProps {
   onToggleVideo?: () => void;
   className?: string;
   lang?: string;
+  localParticipantId?: string; // Peer ID of the local user, to match audio levels
+  activeSpeakerId?: string | null;
+  audioLevels?: Record<string, number>;
 }
 
 interface VideoTileProps {
@@ -31,9 +35,10 @@ interface VideoTileProps {
   };
   stream?: MediaStream | null;
   isLocal?: boolean;
+  isSpeaking?: boolean;
 }
 
-function VideoTile({ participant, stream, isLocal = false, t }: VideoTileProps & { t: (key: string) => string }) {
+function VideoTile({ participant, stream, isLocal = false, isSpeaking = false, t }: VideoTileProps & { t: (key: string) => string }) {
   // Determine if video is enabled based on participant object
   const isVideoEnabled = isLocal
     ? participant.hasVideo // For local, this is passed correctly in the array below
@@ -48,6 +53,7 @@ function VideoTile({ participant, stream, isLocal = false, t }: VideoTileProps &
         className="w-full h-full"
         hasAudio={participant.hasAudio}
         isVideoEnabled={isVideoEnabled} // Pass the status
+        isSpeaking={isSpeaking}
       />
       
       {/* Connection status indicator */}
@@ -74,6 +80,9 @@ export function VideoGrid({
   onToggleVideo,
   className = "",
   lang = "en",
+  localParticipantId,
+  activeSpeakerId = null,
+  audioLevels = {},
 }: VideoGridProps) {
   const [t, setT] = useState(() => getTranslations(lang as 'en' | 'zh'));
   
@@ -81,7 +90,13 @@ export function VideoGrid({
     setT(() => getTranslations(lang as 'en' | 'zh'));
   }, [lang]);
 
-  const [layout, setLayout] = useState<"grid" | "spotlight">("grid");
+  const [layout, setLayout] = useState<"grid" | "spotlight" | "speaker">("grid");
+  const [followedSpeakerId, setFollowedSpeakerId] = useState<string | null>(null);
+
+  // Speaker view sticks with the last remote speaker while the local user talks or everyone is quiet
+  useEffect(() => {
+    if (activeSpeakerId && activeSpeakerId !== localParticipantId) setFollowedSpeakerId(activeSpeakerId);
+  }, [activeSpeakerId, localParticipantId]);
   const [spotlightParticipant, setSpotlightParticipant] = useState<Participant | {
     id: string;
     name: string;
@@ -107,6 +122,14 @@ export function VideoGrid({
     ...participants,
   ];
 
+  const isSpeaking = (participantId: string) => {
+    const levelId = participantId === "local" ? localParticipantId : participantId;
+    return !!levelId && (audioLevels[levelId] ?? 0) >= SPEAKING_THRESHOLD;
+  };
+
+  const speakerParticipant = participants.find(p => p.id === followedSpeakerId) ?? participants[0] ?? null;
+  const featuredParticipant = layout === "speaker" ? speakerParticipant : spotlightParticipant;
+
   const getGridCols = (count: number) => {
     if (count <= 1) return "grid-cols-1";
     if (count <= 2) return "grid-cols-1 md:grid-cols-2";
@@ -116,15 +139,16 @@ export function VideoGrid({
     return "grid-cols-3 md:grid-cols-4";
   };
 
-  if (layout === "spotlight" && spotlightParticipant) {
+  if (layout !== "grid" && featuredParticipant) {
     return (
       <div className={`space-y-4 ${className}`}>
-        {/* Spotlight view */}
+        {/* Spotlight / speaker view */}
         <div className="relative bg-gray-900 rounded-lg overflow-hidden aspect-video">
           <VideoTile
-            participant={spotlightParticipant}
-            stream={spotlightParticipant.id === "local" ? localStream : (spotlightParticipant.stream || null)}
-            isLocal={spotlightParticipant.id === "local"}
+            participant={featuredParticipant}
+            stream={featuredParticipant.id === "local" ? localStream : (featuredParticipant.stream || null)}
+            isLocal={featuredParticipant.id === "local"}
+            isSpeaking={isSpeaking(featuredParticipant.id)}
             t={t}
           />
         </div>
@@ -136,20 +160,33 @@ export function VideoGrid({
               <Users className="w-4 h-4" />
               <span>{t("room.participants")} ({allParticipants.length})</span>
             </h3>
-            <button
-              onClick={() => setLayout("grid")}
-              className="text-gray-400 hover:text-white text-sm"
-            >
-              {t("room.gridView")}
-            </button>
+            <div className="flex items-center space-x-3">
+              {layout === "spotlight" && participants.length > 0 && (
+                <button
+                  onClick={() => setLayout("speaker")}
+                  className="text-gray-400 hover:text-white text-sm"
+                >
+                  {t("room.speakerView")}
+                </button>
+              )}
+              <button
+                onClick={() => setLayout("grid")}
+                className="text-gray-400 hover:text-white text-sm"
+              >
+                {t("room.gridView")}
+              </button>
+            </div>
           </div>
           <div className="flex space-x-2 overflow-x-auto pb-2">
             {allParticipants.map((participant) => (
               <button
                 key={participant.id}
-                onClick={() => setSpotlightParticipant(participant)}
+                onClick={() => {
+                  setSpotlightParticipant(participant);
+                  setLayout("spotlight");
+                }}
                 className={`flex-shrink-0 w-32 h-24 rounded-lg overflow-hidden border-2 transition-colors ${
-                  spotlightParticipant.id === participant.id
+                  featuredParticipant.id === participant.id
                     ? "border-blue-500"
                     : "border-gray-600 hover:border-gray-500"
                 }`}
@@ -158,6 +195,7 @@ export function VideoGrid({
                   participant={participant}
                   stream={participant.id === "local" ? localStream : (participant.stream || null)}
                   isLocal={participant.id === "local"}
+                  isSpeaking={isSpeaking(participant.id)}
                   t={t}
                 />
               </button>
@@ -215,6 +253,7 @@ export function VideoGrid({
               participant={participant}
               stream={participant.id === "local" ? localStream : (participant.stream || null)}
               isLocal={participant.id === "local"}
+              isSpeaking={isSpeaking(participant.id)}
               t={t}
             />
           </div>
@@ -239,6 +278,14 @@ export function VideoGrid({
               {t("room.spotlightView")}
             </button>
           )}
+          {allParticipants.length > 1 && (
+            <button
+              onClick={() => setLayout("speaker")}
+              className="text-gray-400 hover:text-white text-sm"
+            >
+              {t("room.speakerView")}
+            </button>
+          )}
         </div>
 
         {onToggleAudio || onToggleVideo ? (
@@ -1,7 +1,10 @@
 "use client";
 
 import { useEffect, useRef } from "react";
-import { VideoOff, Monitor, MicOff } from "lucide-react";
+import { VideoOff, Monitor, MicOff, Hand, Loader2 } from "lucide-react";
+import { ConnectionQuality } from "@/lib/types";
+import { SignalIndicator } from "@/components/signal-indicator";
+import { tilePlayback } from "@/lib/tile-playback";
 
 interface VideoPlayerProps {
   stream: MediaStream | null;
@@ -11,6 +14,14 @@ interface VideoPlayerProps {
   isScreenSharing?: boolean;
   hasAudio?: boolean;
   isVideoEnabled?: boolean; // Added prop
+  isHandRaised?: boolean;
+  reactions?: { id: string; emoji: string }[];
+  isSpeaking?: boolean;
+  sinkId?: string | null; // Audio output device for remote playback
+  connectionQuality?: ConnectionQuality; // Omit to hide the signal indicator (e.g. local tile)
+  connectionQualityLabel?: string;
+  isReconnecting?: boolean;
+  reconnectingLabel?: string;
 }
 
 export function VideoPlayer({
@@ -20,46 +31,50 @@ export function VideoPlayer({
   className = "",
   isScreenSharing = false,
   hasAudio = true,
-  isVideoEnabled = true // Default to true
+  isVideoEnabled = true, // Default to true
+  isHandRaised = false,
+  reactions = [],
+  isSpeaking = false,
+  sinkId = null,
+  connectionQuality,
+  connectionQualityLabel,
+  isReconnecting = false,
+  reconnectingLabel = "Reconnecting…"
 }: VideoPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
 
-  // Determine if we should actually show the video element
-  // We show it ONLY if:
-  // 1. The explicit isVideoEnabled prop is true
-  // 2. We have a valid stream
-  // 3. The stream has video tracks
-  // 4. The first video track is enabled (double check)
-  const shouldShowVideo =
-    isVideoEnabled &&
-    stream &&
-    stream.active &&
-    stream.getVideoTracks().length > 0 &&
-    stream.getVideoTracks()[0].enabled;
+  // The picture can be off (camera off, low bandwidth mode) while the voice still has to play
+  const { showVideo, attachStream } = tilePlayback(stream, { isLocal, isVideoEnabled });
 
   useEffect(() => {
     const videoEl = videoRef.current;
     if (!videoEl) return;
 
-    if (shouldShowVideo && stream) {
+    if (attachStream && stream) {
       videoEl.srcObject = stream;
       videoEl.play().catch((e) => console.error("Video play failed", e));
     } else {
       videoEl.srcObject = null;
     }
-  }, [stream, shouldShowVideo]);
+  }, [stream, attachStream]);
+
+  useEffect(() => {
+    const videoEl = videoRef.current;
+    if (!videoEl || isLocal || !("setSinkId" in videoEl)) return;
+    videoEl.setSinkId(sinkId ?? "").catch((e) => console.error("Failed to set audio output", e));
+  }, [sinkId, isLocal]);
 
   return (
-    <div className={`relative bg-gray-900 rounded-xl overflow-hidden shadow-sm border border-gray-800 flex items-center justify-center ${className}`}>
-      {shouldShowVideo ? (
-        <video
-          ref={videoRef}
-          autoPlay
-          playsInline
-          muted={isLocal} // Always mute local to prevent echo
-          className={`w-full h-full object-cover ${isScreenSharing ? 'object-contain bg-black' : (isLocal ? 'scale-x-[-1]' : '')}`}
-        />
-      ) : (
+    <div className={`relative bg-gray-900 rounded-xl overflow-hidden shadow-sm border border-gray-800 flex items-center justify-center transition-shadow duration-200 ${isSpeaking ? 'ring-4 ring-green-400/80' : ''} ${className}`}>
+      {/* Stays mounted while hidden: it is also what plays the participant's audio */}
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted={isLocal} // Always mute local to prevent echo
+        className={`w-full h-full object-cover ${showVideo ? '' : 'hidden'} ${isScreenSharing ? 'object-contain bg-black' : (isLocal ? 'scale-x-[-1]' : '')}`}
+      />
+      {!showVideo && (
         <div className="flex flex-col items-center justify-center w-full h-full bg-gray-800 absolute inset-0">
            <div className="w-20 h-20 rounded-full bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center shadow-lg">
               <span className="text-2xl font-bold text-white tracking-widest">
@@ -70,13 +85,44 @@ export function VideoPlayer({
         </div>
       )}
 
+      {/* Reconnecting Overlay */}
+      {isReconnecting && (
+        <div className="absolute inset-0 z-10 bg-black/60 backdrop-blur-sm flex flex-col items-center justify-center gap-2 text-white">
+          <Loader2 className="w-6 h-6 animate-spin" />
+          <span className="text-sm font-medium">{reconnectingLabel}</span>
+        </div>
+      )}
+
+      {/* Floating Reactions */}
+      {reactions.length > 0 && (
+        <div className="absolute bottom-10 left-0 right-0 flex justify-center gap-2 z-20 pointer-events-none">
+          {reactions.map(reaction => (
+            <span key={reaction.id} className="text-4xl drop-shadow-lg animate-reaction-float">
+              {reaction.emoji}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Raised Hand */}
+      {isHandRaised && (
+        <div className="absolute top-2 left-2 z-10 bg-amber-400 text-black p-1.5 rounded-full shadow-md">
+          <Hand className="w-4 h-4" />
+        </div>
+      )}
+
       {/* Name Tag */}
       <div className="absolute bottom-2 left-2 right-2 flex justify-between items-end z-10 pointer-events-none">
         <div className="bg-black/60 backdrop-blur-sm px-2 py-1 rounded text-xs text-white font-medium truncate max-w-[150px] flex items-center gap-1">
           {name} {isLocal && "(You)"}
           {isScreenSharing && <Monitor className="w-3 h-3 text-blue-400 ml-1"/>}
         </div>
-        <div className="flex gap-1">
+        <div className="flex gap-1 items-center">
+            {connectionQuality && (
+              <div className="bg-black/60 backdrop-blur-sm px-1.5 py-1 rounded">
+                <SignalIndicator quality={connectionQuality} label={connectionQualityLabel} />
+              </div>
+            )}
             {!hasAudio && (
               <div className="bg-red-500/90 p-1.5 rounded-full shadow-sm">
                 <MicOff className="w-3 h-3 text-white"/>
@@ -35,12 +35,26 @@ const eslintConfig = [
         HTMLVideoElement: "readonly",
         HTMLAudioElement: "readonly",
         HTMLElement: "readonly",
+        Node: "readonly",
         // DOM event types
         MouseEvent: "readonly",
         KeyboardEvent: "readonly",
+        EventTarget: "readonly",
         // Media types
         MediaStream: "readonly",
         MediaStreamTrack: "readonly",
+        MediaDeviceKind: "readonly",
+        MediaTrackConstraints: "readonly",
+        MediaStreamConstraints: "readonly",
+        DisplayMediaStreamOptions: "readonly",
+        // Web Audio
+        AudioContext: "readonly",
+        AnalyserNode: "readonly",
+        MediaStreamAudioSourceNode: "readonly",
+        MediaStreamAudioDestinationNode: "readonly",
+        MediaRecorder: "readonly",
+        CanvasRenderingContext2D: "readonly",
+        createImageBitmap: "readonly",
         // URL utilities
         URLSearchParams: "readonly",
         // WebRTC globals
@@ -65,8 +79,12 @@ const eslintConfig = [
         btoa: "readonly",
         TextEncoder: "readonly",
         TextDecoder: "readonly",
+        crypto: "readonly",
+        CryptoKey: "readonly",
+        CryptoKeyPair: "readonly",
         // Node.js types
         NodeJS: "readonly",
+        process: "readonly",
       },
     },
     plugins: {
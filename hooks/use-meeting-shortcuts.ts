@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+export type ShortcutAction = "toggleAudio" | "toggleVideo" | "toggleScreenShare" | "toggleChat" | "toggleHand" | "showHelp";
+
+// Single keys without modifiers; Space is push-to-talk and only counts while held, when it is on
+export const SHORTCUT_KEYS: Record<ShortcutAction, string> = {
+  toggleAudio: "m",
+  toggleVideo: "v",
+  toggleScreenShare: "s",
+  toggleChat: "c",
+  toggleHand: "h",
+  showHelp: "?",
+};
+
+export const PUSH_TO_TALK_KEY = " ";
+
+interface UseMeetingShortcutsProps {
+  enabled: boolean;
+  pushToTalk: boolean; // Space is only ours while push-to-talk is on
+  onAction: (action: ShortcutAction) => void;
+  onPushToTalk: (talking: boolean) => void;
+}
+
+// Typing in the chat (or any field) must never toggle the mic
+function isTextEntry(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+// Space presses a focused button or link; that has to keep working
+function takesSpace(target: EventTarget | null) {
+  return target instanceof HTMLElement && !!target.closest("button, a[href], summary, [role='button']");
+}
+
+export function useMeetingShortcuts({ enabled, pushToTalk, onAction, onPushToTalk }: UseMeetingShortcutsProps) {
+  // Handlers change every render; the listeners read the latest without re-subscribing
+  const handlers = useRef({ onAction, onPushToTalk });
+  handlers.current = { onAction, onPushToTalk };
+
+  useEffect(() => {
+    if (!enabled) return;
+    let talking = false;
+
+    const stopTalking = () => {
+      if (!talking) return;
+      talking = false;
+      handlers.current.onPushToTalk(false);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTextEntry(e.target)) return;
+
+      if (e.key === PUSH_TO_TALK_KEY) {
+        if (!pushToTalk || takesSpace(e.target)) return;
+        e.preventDefault(); // Don't scroll the page
+        if (!talking) {
+          talking = true;
+          handlers.current.onPushToTalk(true);
+        }
+        return;
+      }
+      if (e.repeat) return;
+
+      const key = e.key.toLowerCase();
+      const action = (Object.keys(SHORTCUT_KEYS) as ShortcutAction[]).find(a => SHORTCUT_KEYS[a] === key);
+      if (action) {
+        e.preventDefault();
+        handlers.current.onAction(action);
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      // Only a press we took counts; otherwise the key belongs to the page
+      if (e.key === PUSH_TO_TALK_KEY && talking) {
+        e.preventDefault();
+        stopTalking();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    // Switching windows mid-press would otherwise leave the mic open
+    window.addEventListener("blur", stopTalking);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", stopTalking);
+      stopTalking();
+    };
+  }, [enabled, pushToTalk]);
+}
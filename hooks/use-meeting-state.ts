@@ -0,0 +1,115 @@
+"use client";
+
+import { useRef, useSyncExternalStore } from "react";
+import MeetingManager, { MeetingState } from "@/services/meeting-manager";
+import { ConnectionQuality, Reaction } from "@/lib/types";
+import { SPEAKING_THRESHOLD } from "@/lib/audio-level-monitor";
+
+type Selector<T> = (state: MeetingState) => T;
+
+const subscribe = (listener: () => void) => MeetingManager.getInstance().subscribe(listener);
+const getState = () => MeetingManager.getInstance().state;
+
+// One level deep: enough for selectors that gather a few slices into a fresh object or filter a list
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left);
+  if (keys.length !== Object.keys(right).length) return false;
+  return keys.every(key => Object.prototype.hasOwnProperty.call(right, key) && Object.is(left[key], right[key]));
+}
+
+// The component re-renders only when its selection changes, not on every snapshot.
+// Selectors may build new objects; the last selection is kept while it stays equal.
+export function useMeetingSelector<T>(selector: Selector<T>, isEqual: (a: T, b: T) => boolean = shallowEqual): T {
+  const cache = useRef<{ state: MeetingState; selector: Selector<T>; value: T } | null>(null);
+
+  const getSelection = () => {
+    const state = getState();
+    const cached = cache.current;
+    if (cached && cached.state === state && cached.selector === selector) return cached.value;
+
+    const selected = selector(state);
+    const value = cached && isEqual(cached.value, selected) ? cached.value : selected;
+    cache.current = { state, selector, value };
+    return value;
+  };
+
+  return useSyncExternalStore(subscribe, getSelection, getSelection);
+}
+
+// Everything at once. This re-renders on every snapshot, several times a second while anyone
+// talks, so components should take the slices below instead
+export function useMeetingState(): MeetingState {
+  return useSyncExternalStore(subscribe, getState, getState);
+}
+
+export function useParticipants() {
+  return useMeetingSelector(state => state.participants);
+}
+
+export function useChat() {
+  return useMeetingSelector(state => ({
+    messages: state.messages,
+    typingPeers: state.typingPeers,
+    sharedFiles: state.sharedFiles,
+  }));
+}
+
+export function useWaitingRoom() {
+  return useMeetingSelector(state => state.waitingPeers);
+}
+
+// How the meeting as a whole stands: what the page's effects and host controls react to
+export function useMeetingStatus() {
+  return useMeetingSelector(state => ({
+    connectionState: state.connectionState,
+    joinRejection: state.joinRejection,
+    signalingError: state.signalingError,
+    lastModeration: state.lastModeration,
+    activeSpeakerId: state.activeSpeakerId,
+    roomSettings: state.roomSettings,
+    topology: state.topology,
+    isRecording: state.isRecording,
+    recordingPeers: state.recordingPeers,
+    shareChatHistory: state.shareChatHistory,
+  }));
+}
+
+export function useLocalMedia() {
+  return useMeetingSelector(state => ({
+    stream: state.localStream,
+    screenStream: state.screenStream,
+    isAudioMuted: state.isAudioMuted,
+    isVideoMuted: state.isVideoMuted,
+    isScreenSharing: state.isScreenSharing,
+    isHandRaised: state.isHandRaised,
+    isPushToTalk: state.isPushToTalk,
+    isLowBandwidth: state.isLowBandwidth,
+    audioProcessing: state.audioProcessing,
+    devices: state.devices,
+    selectedDevices: state.selectedDevices,
+  }));
+}
+
+// Per-tile slices: audio levels and stats change several times a second, but a tile only
+// re-renders when its own speaking flag, signal quality or reactions do
+export function useIsSpeaking(peerId: string | undefined) {
+  return useMeetingSelector(state => !!peerId && (state.audioLevels[peerId] ?? 0) >= SPEAKING_THRESHOLD);
+}
+
+export function useCallStats() {
+  return useMeetingSelector(state => state.callStats);
+}
+
+export function useConnectionQuality(peerId: string): ConnectionQuality {
+  return useMeetingSelector(state => state.callStats[peerId]?.quality ?? 'unknown');
+}
+
+export function useReactions(peerId: string | undefined): Reaction[] {
+  return useMeetingSelector(state => state.reactions.filter(r => r.peerId === peerId));
+}
@@ -0,0 +1,134 @@
+// Web Audio level metering for meeting streams, plus dominant-speaker selection.
+
+// Level (0..1) above which someone counts as speaking
+export const SPEAKING_THRESHOLD = 0.1;
+
+// A new voice must stay the loudest this long before it takes the floor
+const SWITCH_HOLD_MS = 700;
+
+// ...and be at least this much louder than the current speaker
+const SWITCH_MARGIN = 1.3;
+
+interface MeteredStream {
+  streamId: string;
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  buffer: Uint8Array;
+}
+
+export class AudioLevelMonitor {
+  private context: AudioContext | null = null;
+  private meters: Map<string, MeteredStream> = new Map();
+
+  track(id: string, stream: MediaStream) {
+    // Nothing to meter with outside a browser (server rendering, tests)
+    if (typeof AudioContext === 'undefined') return;
+    if (stream.getAudioTracks().length === 0) {
+      this.untrack(id);
+      return;
+    }
+    if (this.meters.get(id)?.streamId === stream.id) return;
+
+    this.untrack(id);
+    try {
+      const context = this.getContext();
+      const source = context.createMediaStreamSource(stream);
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 512;
+      analyser.smoothingTimeConstant = 0.4;
+      // Analyse only; playback stays with the <video> elements
+      source.connect(analyser);
+      this.meters.set(id, { streamId: stream.id, source, analyser, buffer: new Uint8Array(analyser.fftSize) });
+    } catch (e) {
+      console.warn(`AudioLevelMonitor: Could not meter stream for ${id}`, e);
+    }
+  }
+
+  untrack(id: string) {
+    const meter = this.meters.get(id);
+    if (!meter) return;
+    meter.source.disconnect();
+    this.meters.delete(id);
+  }
+
+  has(id: string) {
+    return this.meters.has(id);
+  }
+
+  get size() {
+    return this.meters.size;
+  }
+
+  // Current RMS level per stream, scaled to 0..1
+  sample(): Record<string, number> {
+    const levels: Record<string, number> = {};
+    this.meters.forEach((meter, id) => {
+      meter.analyser.getByteTimeDomainData(meter.buffer);
+      let sum = 0;
+      for (let i = 0; i < meter.buffer.length; i++) {
+        const v = (meter.buffer[i] - 128) / 128;
+        sum += v * v;
+      }
+      levels[id] = Math.min(1, Math.sqrt(sum / meter.buffer.length) * 5);
+    });
+    return levels;
+  }
+
+  dispose() {
+    Array.from(this.meters.keys()).forEach(id => this.untrack(id));
+    this.context?.close().catch(() => {});
+    this.context = null;
+  }
+
+  private getContext() {
+    if (!this.context) this.context = new AudioContext();
+    // Autoplay policies start contexts suspended until the page has seen a gesture
+    if (this.context.state === 'suspended') this.context.resume().catch(() => {});
+    return this.context;
+  }
+}
+
+// Picks a dominant speaker from level samples. The current speaker keeps the floor through
+// pauses and brief interjections; a challenger has to be clearly louder for SWITCH_HOLD_MS.
+export class ActiveSpeakerDetector {
+  private current: string | null = null;
+  private challenger: { id: string; since: number } | null = null;
+
+  update(levels: Record<string, number>, now: number = Date.now()): string | null {
+    if (this.current && !(this.current in levels)) this.current = null;
+
+    let loudestId: string | null = null;
+    let loudestLevel = 0;
+    for (const [id, level] of Object.entries(levels)) {
+      if (level > loudestLevel) { loudestId = id; loudestLevel = level; }
+    }
+
+    if (!loudestId || loudestLevel < SPEAKING_THRESHOLD || loudestId === this.current) {
+      this.challenger = null;
+      return this.current;
+    }
+
+    if (!this.current) {
+      this.current = loudestId;
+      return this.current;
+    }
+
+    if (loudestLevel < (levels[this.current] ?? 0) * SWITCH_MARGIN) {
+      this.challenger = null;
+      return this.current;
+    }
+
+    if (this.challenger?.id !== loudestId) {
+      this.challenger = { id: loudestId, since: now };
+    } else if (now - this.challenger.since >= SWITCH_HOLD_MS) {
+      this.current = loudestId;
+      this.challenger = null;
+    }
+    return this.current;
+  }
+
+  reset() {
+    this.current = null;
+    this.challenger = null;
+  }
+}
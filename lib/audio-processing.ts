@@ -0,0 +1,108 @@
+// Web Audio chain for the local microphone: input gain, then a noise gate. The mic
+// track goes in, and the chain's output track is what peers receive. Swapping mics
+// only swaps the source, so the output track (and every call's sender) stays put.
+import { AudioProcessingSettings } from "@/lib/types";
+
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessingSettings = {
+  inputGain: 1,
+  noiseGate: false,
+  noiseSuppression: true,
+  echoCancellation: true,
+};
+
+export const MAX_INPUT_GAIN = 3;
+
+// RMS level (0..1, before gain) the voice must pass to open the gate
+const GATE_THRESHOLD = 0.02;
+// The gate stays open this long after the level drops, so word endings are not clipped
+const GATE_HOLD_MS = 250;
+const GATE_ATTACK = 0.005; // seconds
+const GATE_RELEASE = 0.08;
+const GATE_INTERVAL = 20;
+
+export function isAudioProcessingSupported() {
+  return typeof AudioContext !== 'undefined';
+}
+
+// getUserMedia constraints for the browser's own processing, which runs before our chain
+export function audioConstraints(settings: AudioProcessingSettings, deviceId: string | null): MediaTrackConstraints {
+  return {
+    ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+    noiseSuppression: settings.noiseSuppression,
+    echoCancellation: settings.echoCancellation,
+  };
+}
+
+export class AudioProcessor {
+  private context = new AudioContext();
+  private gain = this.context.createGain();
+  private gate = this.context.createGain();
+  private analyser = this.context.createAnalyser();
+  private destination = this.context.createMediaStreamDestination();
+  private source: MediaStreamAudioSourceNode | null = null;
+  private buffer: Uint8Array;
+  private gateTimer: NodeJS.Timeout | null = null;
+  private lastVoiceAt = 0;
+
+  constructor(settings: AudioProcessingSettings) {
+    this.analyser.fftSize = 512;
+    this.buffer = new Uint8Array(this.analyser.fftSize);
+    this.gain.connect(this.gate);
+    this.gate.connect(this.destination);
+    this.update(settings);
+  }
+
+  // The processed track; the same one for the processor's whole life
+  get output(): MediaStreamTrack {
+    return this.destination.stream.getAudioTracks()[0];
+  }
+
+  connect(track: MediaStreamTrack) {
+    this.source?.disconnect();
+    this.source = this.context.createMediaStreamSource(new MediaStream([track]));
+    this.source.connect(this.gain);
+    // The gate listens to the mic before gain, so turning the gain up doesn't let noise through
+    this.source.connect(this.analyser);
+    this.resume();
+    return this.output;
+  }
+
+  // A context created before any user gesture starts suspended, and sends silence until resumed
+  resume() {
+    if (this.context.state === 'suspended') this.context.resume().catch(() => {});
+  }
+
+  update(settings: AudioProcessingSettings) {
+    this.gain.gain.value = Math.min(MAX_INPUT_GAIN, Math.max(0, settings.inputGain));
+    if (settings.noiseGate && !this.gateTimer) {
+      this.gateTimer = setInterval(() => this.updateGate(), GATE_INTERVAL);
+    } else if (!settings.noiseGate && this.gateTimer) {
+      clearInterval(this.gateTimer);
+      this.gateTimer = null;
+      this.gate.gain.setTargetAtTime(1, this.context.currentTime, GATE_ATTACK);
+    }
+  }
+
+  private updateGate() {
+    this.analyser.getByteTimeDomainData(this.buffer);
+    let sum = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const v = (this.buffer[i] - 128) / 128;
+      sum += v * v;
+    }
+    const now = Date.now();
+    if (Math.sqrt(sum / this.buffer.length) >= GATE_THRESHOLD) this.lastVoiceAt = now;
+
+    const open = now - this.lastVoiceAt < GATE_HOLD_MS;
+    this.gate.gain.setTargetAtTime(open ? 1 : 0, this.context.currentTime, open ? GATE_ATTACK : GATE_RELEASE);
+  }
+
+  dispose() {
+    if (this.gateTimer) clearInterval(this.gateTimer);
+    this.gateTimer = null;
+    this.source?.disconnect();
+    this.source = null;
+    this.output.stop();
+    this.context.close().catch(() => {});
+  }
+}
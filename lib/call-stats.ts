@@ -0,0 +1,114 @@
+// Turns RTCPeerConnection.getStats() reports into per-call quality figures.
+import { CallStats, CandidateType, ConnectionQuality } from "@/lib/types";
+
+// Cumulative counters from the previous sample; rates and loss are deltas against these
+export interface StatsCounters {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+type StatsEntry = Record<string, unknown>;
+
+const CANDIDATE_TYPES: CandidateType[] = ['host', 'srflx', 'prflx', 'relay'];
+
+function field(entry: StatsEntry | undefined, key: string): number | null {
+  const value = entry?.[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+// The candidate pair ICE settled on: the transport names it, older browsers only flag it
+function findSelectedPair(entries: StatsEntry[], byId: Map<string, StatsEntry>) {
+  const transport = entries.find(e => e.type === 'transport' && typeof e.selectedCandidatePairId === 'string');
+  if (transport) return byId.get(transport.selectedCandidatePairId as string);
+  return entries.find(e => e.type === 'candidate-pair' && (e.selected === true || (e.nominated === true && e.state === 'succeeded')));
+}
+
+export function rateConnection(stats: Pick<CallStats, 'rtt' | 'packetLoss' | 'jitter'>): ConnectionQuality {
+  const { rtt, packetLoss, jitter } = stats;
+  if (rtt === null && packetLoss === null) return 'unknown';
+
+  const loss = packetLoss ?? 0;
+  const delay = rtt ?? 0;
+  const jitterMs = jitter ?? 0;
+  if (loss > 0.1 || delay > 600) return 'bad';
+  if (loss > 0.03 || delay > 300 || jitterMs > 50) return 'poor';
+  if (loss > 0.01 || delay > 150 || jitterMs > 30) return 'good';
+  return 'excellent';
+}
+
+export async function sampleCallStats(
+  pc: RTCPeerConnection,
+  previous: StatsCounters | null
+): Promise<{ stats: CallStats; counters: StatsCounters }> {
+  const report = await pc.getStats();
+  const entries: StatsEntry[] = [];
+  const byId = new Map<string, StatsEntry>();
+  report.forEach((entry: StatsEntry) => {
+    entries.push(entry);
+    if (typeof entry.id === 'string') byId.set(entry.id, entry);
+  });
+
+  const counters: StatsCounters = { timestamp: Date.now(), bytesReceived: 0, bytesSent: 0, packetsReceived: 0, packetsLost: 0 };
+  let jitter: number | null = null;
+  let remoteRtt: number | null = null;
+  let resolution: CallStats['resolution'] = null;
+  let frameRate: number | null = null;
+
+  for (const entry of entries) {
+    if (entry.type === 'inbound-rtp') {
+      counters.bytesReceived += field(entry, 'bytesReceived') ?? 0;
+      counters.packetsReceived += field(entry, 'packetsReceived') ?? 0;
+      counters.packetsLost += Math.max(0, field(entry, 'packetsLost') ?? 0);
+      const entryJitter = field(entry, 'jitter');
+      if (entryJitter !== null) jitter = Math.max(jitter ?? 0, entryJitter * 1000);
+
+      if (entry.kind === 'video') {
+        const width = field(entry, 'frameWidth');
+        const height = field(entry, 'frameHeight');
+        if (width && height) resolution = { width, height };
+        frameRate = field(entry, 'framesPerSecond') ?? frameRate;
+      }
+    } else if (entry.type === 'outbound-rtp') {
+      counters.bytesSent += field(entry, 'bytesSent') ?? 0;
+    } else if (entry.type === 'remote-inbound-rtp') {
+      const entryRtt = field(entry, 'roundTripTime');
+      if (entryRtt !== null) remoteRtt = Math.max(remoteRtt ?? 0, entryRtt * 1000);
+    }
+  }
+
+  const pair = findSelectedPair(entries, byId);
+  const pairRtt = field(pair, 'currentRoundTripTime');
+  const rtt = pairRtt !== null ? pairRtt * 1000 : remoteRtt;
+
+  let candidateType: CandidateType | null = null;
+  const local = pair && typeof pair.localCandidateId === 'string' ? byId.get(pair.localCandidateId) : undefined;
+  const remote = pair && typeof pair.remoteCandidateId === 'string' ? byId.get(pair.remoteCandidateId) : undefined;
+  // A TURN relay on either end is what matters for latency, so it wins over the local type
+  if (remote?.candidateType === 'relay') candidateType = 'relay';
+  else if (CANDIDATE_TYPES.includes(local?.candidateType as CandidateType)) candidateType = local?.candidateType as CandidateType;
+
+  let inboundBitrate: number | null = null;
+  let outboundBitrate: number | null = null;
+  let packetLoss: number | null = null;
+  if (previous) {
+    const seconds = (counters.timestamp - previous.timestamp) / 1000;
+    if (seconds > 0) {
+      inboundBitrate = Math.max(0, (counters.bytesReceived - previous.bytesReceived) * 8 / seconds);
+      outboundBitrate = Math.max(0, (counters.bytesSent - previous.bytesSent) * 8 / seconds);
+    }
+    const lost = Math.max(0, counters.packetsLost - previous.packetsLost);
+    const received = Math.max(0, counters.packetsReceived - previous.packetsReceived);
+    if (lost + received > 0) packetLoss = lost / (lost + received);
+  }
+
+  const stats: CallStats = {
+    timestamp: counters.timestamp,
+    rtt, packetLoss, jitter, inboundBitrate, outboundBitrate, resolution, frameRate, candidateType,
+    quality: 'unknown'
+  };
+  stats.quality = rateConnection(stats);
+  return { stats, counters };
+}
@@ -0,0 +1,49 @@
+// End-to-end encryption for direct messages that have to be relayed by the host.
+// Each client holds an ECDH P-256 key pair; a shared AES-GCM key is derived per
+// conversation, so the relaying host only ever sees ciphertext.
+//
+// Public keys are themselves distributed through the host. That keeps a curious host
+// from reading DMs, but a host that actively swaps keys could still intercept them.
+import { bytesToBase64, base64ToBytes } from "@/lib/utils";
+
+export interface EncryptedPayload {
+  iv: string;
+  ciphertext: string;
+}
+
+const CURVE = { name: 'ECDH', namedCurve: 'P-256' } as const;
+
+export function isDirectMessagingSupported() {
+  return typeof crypto !== 'undefined' && !!crypto.subtle;
+}
+
+export function generateKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(CURVE, false, ['deriveKey']);
+}
+
+export async function exportPublicKey(key: CryptoKey): Promise<string> {
+  return bytesToBase64(await crypto.subtle.exportKey('raw', key));
+}
+
+export async function deriveSharedKey(privateKey: CryptoKey, remotePublicKey: string): Promise<CryptoKey> {
+  const publicKey = await crypto.subtle.importKey('raw', base64ToBytes(remotePublicKey), CURVE, false, []);
+  return crypto.subtle.deriveKey(
+    { name: 'ECDH', public: publicKey },
+    privateKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptText(key: CryptoKey, plaintext: string): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { iv: bytesToBase64(iv), ciphertext: bytesToBase64(ciphertext) };
+}
+
+// Throws if the payload was tampered with or encrypted for someone else
+export async function decryptText(key: CryptoKey, payload: EncryptedPayload): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(payload.iv) }, key, base64ToBytes(payload.ciphertext));
+  return new TextDecoder().decode(plaintext);
+}
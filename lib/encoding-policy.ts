@@ -0,0 +1,73 @@
+// Chooses RTCRtpSender video encoding parameters for each call in the mesh.
+// Every peer uploads a separate copy of its video to every other peer, so the
+// per-call budget has to shrink as the room grows or the uplink saturates.
+import { ConnectionQuality } from "@/lib/types";
+
+export interface SenderEncoding {
+  active: boolean;
+  maxBitrate: number; // bits/s
+  scaleResolutionDownBy: number;
+  maxFramerate: number;
+}
+
+export interface EncodingContext {
+  remoteCount: number; // Calls we are uploading to
+  quality: ConnectionQuality; // Measured on this call
+  isScreenSharing: boolean; // This sender carries a shared screen
+  isPresenting: boolean; // We are sharing a screen, so our camera only shows as an overlay
+  lowBandwidth: boolean; // Our own low bandwidth mode
+  receiverWantsVideo: boolean; // False when the receiver is in low bandwidth mode
+}
+
+// Camera budgets by room size; the first tier whose limit covers remoteCount applies
+const CAMERA_TIERS: { maxRemotes: number; encoding: Omit<SenderEncoding, 'active'> }[] = [
+  { maxRemotes: 2, encoding: { maxBitrate: 1_500_000, scaleResolutionDownBy: 1, maxFramerate: 30 } },
+  { maxRemotes: 4, encoding: { maxBitrate: 800_000, scaleResolutionDownBy: 1.5, maxFramerate: 24 } },
+  { maxRemotes: 6, encoding: { maxBitrate: 500_000, scaleResolutionDownBy: 2, maxFramerate: 20 } },
+  { maxRemotes: Infinity, encoding: { maxBitrate: 300_000, scaleResolutionDownBy: 3, maxFramerate: 15 } },
+];
+
+const LOW_BANDWIDTH_ENCODING: Omit<SenderEncoding, 'active'> = { maxBitrate: 150_000, scaleResolutionDownBy: 4, maxFramerate: 12 };
+
+// The camera beside a shared screen is drawn small, so it leaves the uplink to the screen
+const OVERLAY_CAMERA_ENCODING: Omit<SenderEncoding, 'active'> = { maxBitrate: 200_000, scaleResolutionDownBy: 3, maxFramerate: 15 };
+
+// How much of the budget survives on a congested call
+const CONGESTION_FACTOR: Record<ConnectionQuality, number> = {
+  excellent: 1,
+  good: 1,
+  unknown: 1,
+  poor: 0.6,
+  bad: 0.35,
+};
+
+export function computeSenderEncoding(context: EncodingContext): SenderEncoding {
+  const tier = context.lowBandwidth
+    ? LOW_BANDWIDTH_ENCODING
+    : CAMERA_TIERS.find(tier => context.remoteCount <= tier.maxRemotes)!.encoding;
+  const base = context.isPresenting && !context.isScreenSharing
+    ? {
+        maxBitrate: Math.min(tier.maxBitrate, OVERLAY_CAMERA_ENCODING.maxBitrate),
+        scaleResolutionDownBy: Math.max(tier.scaleResolutionDownBy, OVERLAY_CAMERA_ENCODING.scaleResolutionDownBy),
+        maxFramerate: Math.min(tier.maxFramerate, OVERLAY_CAMERA_ENCODING.maxFramerate),
+      }
+    : tier;
+  const factor = CONGESTION_FACTOR[context.quality];
+
+  if (context.isScreenSharing) {
+    // Text has to stay legible, so shared screens trade frame rate for resolution
+    return {
+      active: context.receiverWantsVideo,
+      maxBitrate: Math.round(Math.max(base.maxBitrate, 500_000) * factor),
+      scaleResolutionDownBy: 1,
+      maxFramerate: factor < 1 || context.lowBandwidth ? 5 : 15,
+    };
+  }
+
+  return {
+    active: context.receiverWantsVideo,
+    maxBitrate: Math.round(base.maxBitrate * factor),
+    scaleResolutionDownBy: factor < 1 ? base.scaleResolutionDownBy * 1.5 : base.scaleResolutionDownBy,
+    maxFramerate: factor < 1 ? Math.min(base.maxFramerate, 15) : base.maxFramerate,
+  };
+}
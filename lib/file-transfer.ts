@@ -0,0 +1,81 @@
+// Chunked file sharing over the meeting's data connections, after PeerManager.sendFiles:
+// the file is announced first, then streamed in fixed-size chunks with progress.
+// Transfers are pulled, so each recipient downloads only the files they open.
+import { MAX_THUMBNAIL_LENGTH } from "@/lib/meeting-protocol";
+
+export const FILE_CHUNK_SIZE = 12 * 1024; // Fits one PeerJS packet (16300 bytes) with the message envelope
+export const MAX_SHARED_FILE_SIZE = 50 * 1024 * 1024; // Recipients hold the whole file in memory
+
+const BUFFER_HIGH_WATER = 1024 * 1024;
+const BUFFER_POLL_INTERVAL = 20;
+const THUMBNAIL_SIZE = 160;
+
+export function countChunks(size: number) {
+  return Math.max(1, Math.ceil(size / FILE_CHUNK_SIZE));
+}
+
+export function readChunk(file: Blob, index: number): Promise<ArrayBuffer> {
+  return file.slice(index * FILE_CHUNK_SIZE, (index + 1) * FILE_CHUNK_SIZE).arrayBuffer();
+}
+
+// Resolves once the channel has drained enough to take more, so a large file isn't queued in memory
+export async function waitForBufferSpace(channel: RTCDataChannel | undefined) {
+  while (channel && channel.readyState === 'open' && channel.bufferedAmount > BUFFER_HIGH_WATER) {
+    await new Promise(resolve => setTimeout(resolve, BUFFER_POLL_INTERVAL));
+  }
+}
+
+// Collects a download's chunks; they can arrive in any order but each only once
+export class ChunkAssembler {
+  private chunks: (ArrayBuffer | undefined)[];
+  private received = 0;
+
+  constructor(readonly size: number, readonly mimeType: string) {
+    this.chunks = new Array(countChunks(size));
+  }
+
+  get progress() {
+    return this.received / this.chunks.length;
+  }
+
+  get isComplete() {
+    return this.received === this.chunks.length;
+  }
+
+  // Returns false for a chunk that doesn't belong to this file
+  add(index: number, data: ArrayBuffer) {
+    if (!Number.isInteger(index) || index < 0 || index >= this.chunks.length || data.byteLength > FILE_CHUNK_SIZE) return false;
+    if (!this.chunks[index]) this.received++;
+    this.chunks[index] = data;
+    return true;
+  }
+
+  // Null if the pieces don't add up to the announced size
+  toBlob(): Blob | null {
+    if (!this.isComplete) return null;
+    const blob = new Blob(this.chunks as ArrayBuffer[], { type: this.mimeType });
+    return blob.size === this.size ? blob : null;
+  }
+}
+
+export function isImageType(mimeType: string) {
+  return /^image\/(png|jpe?g|gif|webp|bmp)$/i.test(mimeType);
+}
+
+// A small JPEG preview sent along with the announcement; null for anything we can't draw
+export async function createThumbnail(file: File): Promise<string | null> {
+  if (!isImageType(file.type) || typeof createImageBitmap === 'undefined') return null;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    const thumbnail = canvas.toDataURL('image/jpeg', 0.7);
+    return thumbnail.length <= MAX_THUMBNAIL_LENGTH ? thumbnail : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,53 @@
+// ICE restart and reconnect backoff for mesh calls.
+// PeerJS only negotiates once, so restart offers and answers travel over the meeting
+// protocol instead. Candidates are gathered up front and sent inside the SDP, because
+// the signalling server may be what dropped in the first place.
+
+const ICE_GATHER_TIMEOUT = 3000;
+
+const RECONNECT_BASE_DELAY = 2000;
+const RECONNECT_MAX_DELAY = 8000;
+
+// Delay before reconnect attempt n (0-based): 2s, 4s, 8s, 8s...
+export function reconnectDelay(attempt: number) {
+  return Math.min(RECONNECT_BASE_DELAY * 2 ** attempt, RECONNECT_MAX_DELAY);
+}
+
+function waitForIceGathering(pc: RTCPeerConnection) {
+  if (pc.iceGatheringState === 'complete') return Promise.resolve();
+  return new Promise<void>(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      pc.removeEventListener('icegatheringstatechange', onChange);
+      resolve();
+    };
+    const onChange = () => { if (pc.iceGatheringState === 'complete') done(); };
+    // Send whatever we have rather than stall on a slow STUN server
+    const timer = setTimeout(done, ICE_GATHER_TIMEOUT);
+    pc.addEventListener('icegatheringstatechange', onChange);
+  });
+}
+
+// Returns the SDP to send to the remote peer, or null if the connection is mid-negotiation
+export async function createIceRestartOffer(pc: RTCPeerConnection): Promise<string | null> {
+  if (pc.signalingState !== 'stable') return null;
+  const offer = await pc.createOffer({ iceRestart: true });
+  await pc.setLocalDescription(offer);
+  await waitForIceGathering(pc);
+  return pc.localDescription?.sdp ?? null;
+}
+
+// Applies the remote side of a restart. For an offer, returns the answer SDP to send back.
+export async function applyIceRestartDescription(
+  pc: RTCPeerConnection,
+  type: 'offer' | 'answer',
+  sdp: string
+): Promise<string | null> {
+  await pc.setRemoteDescription({ type, sdp });
+  if (type === 'answer') return null;
+
+  const answer = await pc.createAnswer();
+  await pc.setLocalDescription(answer);
+  await waitForIceGathering(pc);
+  return pc.localDescription?.sdp ?? null;
+}
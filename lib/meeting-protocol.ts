@@ -0,0 +1,226 @@
+// Data-channel protocol spoken between MeetingManager instances.
+// Every outgoing message is stamped with the protocol version, and every incoming
+// message is validated against its schema before a handler ever sees it.
+
+import { RoomSettings, MeetingTopology } from "@/lib/types";
+
+// Bump when the wire format changes in a way older clients cannot ignore
+export const PROTOCOL_VERSION = 1;
+
+// Clients from before the handshake existed send unversioned messages; treat them as version 0
+export const MIN_PROTOCOL_VERSION = 0;
+
+// Optional features a client understands. Peers only receive messages for capabilities they announced.
+export const CAPABILITIES = ['succession', 'moderation', 'raise-hand', 'reactions', 'bandwidth', 'ice-restart', 'recording', 'chat-history', 'direct-messages', 'file-sharing', 'chat-actions', 'passcode', 'screen-stream', 'room-settings', 'relay-media'] as const;
+
+export type Capability = typeof CAPABILITIES[number];
+
+export type ModerationAction = 'mute' | 'stop-video' | 'remove' | 'ban';
+
+export const REACTION_EMOJIS = ['👍', '👏', '😂', '🎉', '❤️', '😮'] as const;
+
+export type ReactionEmoji = typeof REACTION_EMOJIS[number];
+
+// Most chat messages a late joiner is sent on admission
+export const CHAT_HISTORY_LIMIT = 100;
+
+export interface ChatEntry {
+  id: string;
+  senderId?: string;
+  senderName: string;
+  text: string;
+  timestamp: number;
+  editedAt?: number;
+}
+
+export interface PeerProtocol {
+  version: number;
+  capabilities: string[];
+}
+
+export type MeetingMessage =
+  | { type: 'hello'; version: number; capabilities: string[] }
+  | { type: 'join-request'; name: string; resumeToken?: string }
+  | { type: 'join-accepted'; resumeToken?: string; name?: string }
+  | { type: 'join-rejected'; reason?: 'passcode' | 'full' }
+  | { type: 'passcode-challenge'; nonce: string }
+  | { type: 'passcode-answer'; proof: string } // Empty when the joiner has no passcode
+  | { type: 'active-peers'; peers: { id: string; name: string; screenStream?: boolean }[] } // screenStream: takes a shared screen as its own call
+  | { type: 'peer-left'; peerId: string }
+  | ({ type: 'chat-message'; recipientId?: string } & ChatEntry) // recipientId: a DM sent over a direct link
+  | { type: 'dm-key'; publicKey: string; peerId?: string }
+  | { type: 'dm'; targetId: string; id: string; timestamp: number; iv: string; ciphertext: string; peerId?: string } // A DM relayed by the host; only the text is encrypted
+  | { type: 'file-offer'; fileId: string; name: string; size: number; mimeType: string; senderName: string; timestamp: number; thumbnail?: string; peerId?: string }
+  | { type: 'file-request'; fileId: string; targetId: string; peerId?: string } // targetId: whoever shared the file
+  | { type: 'chat-edit'; messageId: string; text: string; editedAt: number; peerId?: string }
+  | { type: 'chat-delete'; messageId: string; peerId?: string }
+  | { type: 'chat-reaction'; messageId: string; emoji: ReactionEmoji; active: boolean; peerId?: string }
+  | { type: 'typing'; active: boolean; peerId?: string }
+  | { type: 'file-chunk'; fileId: string; index: number; data: ArrayBuffer; targetId: string; peerId?: string } // targetId: the recipient
+  | { type: 'chat-history'; messages: ChatEntry[] }
+  | { type: 'status-update'; hasVideo: boolean; hasAudio: boolean; isScreenSharing: boolean; peerId?: string }
+  | { type: 'succession'; order: string[]; waiting: { id: string; name: string }[]; token?: string; banned?: string[]; bannedSessions?: string[]; shareChatHistory?: boolean; passcodeKey?: string; autoAdmit?: boolean }
+  | { type: 'moderate'; action: ModerationAction }
+  | { type: 'room-settings'; settings: RoomSettings } // From the host, on admission and whenever they change
+  | { type: 'topology'; mode: MeetingTopology; relayed: string[] } // relayed: peers whose media the host forwards to us instead of a direct call
+  | { type: 'hand'; raised: boolean; peerId?: string }
+  | { type: 'reaction'; emoji: ReactionEmoji; peerId?: string }
+  | { type: 'video-preference'; receiveVideo: boolean; peerId?: string }
+  | { type: 'ice-restart'; description: 'offer' | 'answer'; sdp: string; targetId?: string; peerId?: string }
+  | { type: 'recording'; active: boolean; peerId?: string };
+
+export type MeetingMessageType = MeetingMessage['type'];
+
+// Which capability a message belongs to; messages not listed are part of the core protocol
+export const MESSAGE_CAPABILITIES: Partial<Record<MeetingMessageType, Capability>> = {
+  'succession': 'succession',
+  'passcode-challenge': 'passcode',
+  'passcode-answer': 'passcode',
+  'moderate': 'moderation',
+  'room-settings': 'room-settings',
+  'topology': 'relay-media',
+  'hand': 'raise-hand',
+  'reaction': 'reactions',
+  'video-preference': 'bandwidth',
+  'ice-restart': 'ice-restart',
+  'recording': 'recording',
+  'chat-history': 'chat-history',
+  'dm-key': 'direct-messages',
+  'dm': 'direct-messages',
+  'file-offer': 'file-sharing',
+  'file-request': 'file-sharing',
+  'file-chunk': 'file-sharing',
+  'chat-edit': 'chat-actions',
+  'chat-delete': 'chat-actions',
+  'chat-reaction': 'chat-actions',
+  'typing': 'chat-actions',
+};
+
+const MAX_ID_LENGTH = 128;
+const MAX_NAME_LENGTH = 100;
+const MAX_TEXT_LENGTH = 5000;
+const MAX_LIST_LENGTH = 256;
+const MAX_SDP_LENGTH = 65536;
+const MAX_CIPHERTEXT_LENGTH = 32768; // Base64 of an encrypted MAX_TEXT_LENGTH message
+const MAX_CHUNK_BYTES = 16384;
+export const MAX_THUMBNAIL_LENGTH = 32768; // Data URL of a shared image's preview
+
+// --- VALIDATORS ---
+
+type Validator = (value: unknown) => boolean;
+
+const str = (maxLength: number): Validator => value => typeof value === 'string' && value.length <= maxLength;
+const num: Validator = value => typeof value === 'number' && Number.isFinite(value);
+const bool: Validator = value => typeof value === 'boolean';
+const bytes = (maxLength: number): Validator => value => value instanceof ArrayBuffer && value.byteLength <= maxLength;
+const oneOf = (...values: string[]): Validator => value => typeof value === 'string' && values.includes(value);
+const optional = (validator: Validator): Validator => value => value === undefined || validator(value);
+const arrayOf = (validator: Validator, maxLength: number = MAX_LIST_LENGTH): Validator =>
+  value => Array.isArray(value) && value.length <= maxLength && value.every(validator);
+const shape = (fields: Record<string, Validator>): Validator =>
+  value => isRecord(value) && Object.entries(fields).every(([key, validator]) => validator(value[key]));
+
+const id = str(MAX_ID_LENGTH);
+const name = str(MAX_NAME_LENGTH);
+const peerRef = shape({ id, name });
+const chatEntry = { id, senderId: optional(id), senderName: name, text: str(MAX_TEXT_LENGTH), timestamp: num, editedAt: optional(num) };
+
+const SCHEMAS: Record<MeetingMessageType, Record<string, Validator>> = {
+  'hello': { version: num, capabilities: arrayOf(str(64), 64) },
+  'join-request': { name, resumeToken: optional(id) },
+  'join-accepted': { resumeToken: optional(id), name: optional(name) },
+  'join-rejected': { reason: optional(oneOf('passcode', 'full')) },
+  'passcode-challenge': { nonce: str(64) },
+  'passcode-answer': { proof: str(128) },
+  'active-peers': { peers: arrayOf(shape({ id, name, screenStream: optional(bool) })) },
+  'peer-left': { peerId: id },
+  'chat-message': { ...chatEntry, recipientId: optional(id) },
+  'dm-key': { publicKey: str(256), peerId: optional(id) },
+  'dm': { targetId: id, id, timestamp: num, iv: str(32), ciphertext: str(MAX_CIPHERTEXT_LENGTH), peerId: optional(id) },
+  'file-offer': {
+    fileId: id, name: str(255), size: num, mimeType: str(255), senderName: name, timestamp: num,
+    thumbnail: optional(str(MAX_THUMBNAIL_LENGTH)), peerId: optional(id)
+  },
+  'chat-edit': { messageId: id, text: str(MAX_TEXT_LENGTH), editedAt: num, peerId: optional(id) },
+  'chat-delete': { messageId: id, peerId: optional(id) },
+  'chat-reaction': { messageId: id, emoji: oneOf(...REACTION_EMOJIS), active: bool, peerId: optional(id) },
+  'typing': { active: bool, peerId: optional(id) },
+  'file-request': { fileId: id, targetId: id, peerId: optional(id) },
+  'file-chunk': { fileId: id, index: num, data: bytes(MAX_CHUNK_BYTES), targetId: id, peerId: optional(id) },
+  'chat-history': { messages: arrayOf(shape(chatEntry), CHAT_HISTORY_LIMIT) },
+  'status-update': { hasVideo: bool, hasAudio: bool, isScreenSharing: bool, peerId: optional(id) },
+  'succession': { order: arrayOf(id), waiting: arrayOf(peerRef), token: optional(id), banned: optional(arrayOf(id)), bannedSessions: optional(arrayOf(id)), shareChatHistory: optional(bool),
+    passcodeKey: optional(str(64)), autoAdmit: optional(bool)
+  },
+  'moderate': { action: oneOf('mute', 'stop-video', 'remove', 'ban') },
+  'room-settings': {
+    settings: shape({
+      maxParticipants: num, allowWaitingRoom: bool, muteOnEntry: bool, videoOnEntry: bool, enableChat: bool, enableScreenShare: bool,
+      topology: optional(oneOf('auto', 'mesh', 'star')) // Hosts from before topologies leave it out
+    })
+  },
+  'topology': { mode: oneOf('mesh', 'star'), relayed: arrayOf(id) },
+  'hand': { raised: bool, peerId: optional(id) },
+  'reaction': { emoji: oneOf(...REACTION_EMOJIS), peerId: optional(id) },
+  'video-preference': { receiveVideo: bool, peerId: optional(id) },
+  'ice-restart': { description: oneOf('offer', 'answer'), sdp: str(MAX_SDP_LENGTH), targetId: optional(id), peerId: optional(id) },
+  'recording': { active: bool, peerId: optional(id) },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// --- ENCODE / DECODE ---
+
+export type ParseResult =
+  | { ok: true; message: MeetingMessage; version: number }
+  | { ok: false; reason: string };
+
+export function encodeMessage(message: MeetingMessage): MeetingMessage & { v: number } {
+  return { ...message, v: PROTOCOL_VERSION };
+}
+
+export function parseMessage(data: unknown): ParseResult {
+  if (!isRecord(data)) return { ok: false, reason: 'not an object' };
+
+  const version = data.v === undefined ? 0 : data.v;
+  if (typeof version !== 'number' || !Number.isInteger(version)) {
+    return { ok: false, reason: 'invalid version field' };
+  }
+  if (version < MIN_PROTOCOL_VERSION) {
+    return { ok: false, reason: `unsupported protocol version ${version}` };
+  }
+
+  const type = data.type;
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(SCHEMAS, type)) {
+    return { ok: false, reason: `unknown message type ${String(type).slice(0, MAX_ID_LENGTH)}` };
+  }
+
+  const schema = SCHEMAS[type as MeetingMessageType];
+  for (const [field, validator] of Object.entries(schema)) {
+    if (!validator(data[field])) {
+      return { ok: false, reason: `invalid field "${field}" in ${type}` };
+    }
+  }
+
+  // Keep only the fields the schema knows about so extra payload never reaches handlers
+  const message: Record<string, unknown> = { type };
+  Object.keys(schema).forEach(field => {
+    if (data[field] !== undefined) message[field] = data[field];
+  });
+
+  return { ok: true, message: message as MeetingMessage, version };
+}
+
+export function createHello(): MeetingMessage {
+  return { type: 'hello', version: PROTOCOL_VERSION, capabilities: [...CAPABILITIES] };
+}
+
+// Whether a peer that announced `protocol` understands `message`.
+// Peers we have not heard a hello from yet only get core messages.
+export function peerSupports(protocol: PeerProtocol | undefined, message: MeetingMessage): boolean {
+  const capability = MESSAGE_CAPABILITIES[message.type];
+  if (!capability) return true;
+  return !!protocol && protocol.capabilities.includes(capability);
+}
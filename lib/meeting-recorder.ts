@@ -0,0 +1,270 @@
+// Client-side meeting recorder: draws every participant onto one canvas, mixes all
+// audio through Web Audio, and records the result with MediaRecorder.
+
+export type RecordingLayout = 'grid' | 'speaker';
+
+export interface RecordingTile {
+  id: string;
+  name: string;
+  videoStream: MediaStream | null;
+  audioStream: MediaStream | null;
+  hasVideo: boolean;
+  isScreenSharing: boolean;
+}
+
+export interface RecordingScene {
+  layout: RecordingLayout;
+  featuredId: string | null; // Speaker layout only
+  tiles: RecordingTile[];
+}
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FRAME_RATE = 24;
+const TILE_GAP = 8;
+const CHUNK_INTERVAL = 1000;
+
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+interface Rect { x: number; y: number; w: number; h: number }
+
+interface TileMedia {
+  video: HTMLVideoElement;
+  audio: MediaStreamAudioSourceNode | null;
+  videoStreamId: string | null;
+  audioStreamId: string | null;
+}
+
+export class MeetingRecorder {
+  private canvas: HTMLCanvasElement | null = null;
+  private context: CanvasRenderingContext2D | null = null;
+  private audioContext: AudioContext | null = null;
+  private audioDestination: MediaStreamAudioDestinationNode | null = null;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private media: Map<string, TileMedia> = new Map();
+  private drawInterval: NodeJS.Timeout | null = null;
+  private getScene: (() => RecordingScene) | null = null;
+  private stopping: Promise<Blob | null> | null = null;
+
+  static isSupported() {
+    return typeof window !== 'undefined' && typeof window.MediaRecorder !== 'undefined' && !!window.AudioContext;
+  }
+
+  get isRecording() {
+    return this.recorder !== null;
+  }
+
+  start(getScene: () => RecordingScene) {
+    if (this.recorder) return;
+    this.getScene = getScene;
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = WIDTH;
+    this.canvas.height = HEIGHT;
+    this.context = this.canvas.getContext('2d');
+
+    this.audioContext = new AudioContext();
+    this.audioDestination = this.audioContext.createMediaStreamDestination();
+
+    this.draw();
+    const output = new MediaStream([
+      ...this.canvas.captureStream(FRAME_RATE).getVideoTracks(),
+      ...this.audioDestination.stream.getAudioTracks()
+    ]);
+
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    this.chunks = [];
+    this.recorder = new MediaRecorder(output, mimeType ? { mimeType } : undefined);
+    this.recorder.ondataavailable = (e) => { if (e.data.size > 0) this.chunks.push(e.data); };
+    this.recorder.start(CHUNK_INTERVAL);
+
+    // setInterval rather than requestAnimationFrame so a background tab keeps recording
+    this.drawInterval = setInterval(() => this.draw(), 1000 / FRAME_RATE);
+  }
+
+  // Resolves with the finished WebM, or null if nothing was recording
+  stop(): Promise<Blob | null> {
+    const recorder = this.recorder;
+    if (!recorder) return Promise.resolve(null);
+    if (this.stopping) return this.stopping;
+
+    this.stopping = new Promise(resolve => {
+      const finish = () => {
+        const blob = new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' });
+        this.teardown();
+        resolve(blob);
+      };
+      if (recorder.state === 'inactive') {
+        finish();
+        return;
+      }
+      recorder.onstop = finish;
+      recorder.stop();
+    });
+    return this.stopping;
+  }
+
+  // Drops the recording without producing a file
+  dispose() {
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.onstop = null;
+      this.recorder.stop();
+    }
+    this.teardown();
+  }
+
+  private teardown() {
+    if (this.drawInterval) clearInterval(this.drawInterval);
+    this.drawInterval = null;
+    Array.from(this.media.keys()).forEach(id => this.release(id));
+    this.audioContext?.close().catch(() => {});
+    this.audioContext = null;
+    this.audioDestination = null;
+    this.recorder = null;
+    this.chunks = [];
+    this.canvas = null;
+    this.context = null;
+    this.getScene = null;
+    this.stopping = null;
+  }
+
+  // --- MEDIA SOURCES ---
+
+  private sync(tiles: RecordingTile[]) {
+    const ids = new Set(tiles.map(tile => tile.id));
+    Array.from(this.media.keys()).forEach(id => { if (!ids.has(id)) this.release(id); });
+
+    tiles.forEach(tile => {
+      let media = this.media.get(tile.id);
+      if (!media) {
+        const video = document.createElement('video');
+        video.muted = true; // Sound goes through the mix, not the element
+        video.playsInline = true;
+        media = { video, audio: null, videoStreamId: null, audioStreamId: null };
+        this.media.set(tile.id, media);
+      }
+
+      const videoStreamId = tile.videoStream?.id ?? null;
+      if (media.videoStreamId !== videoStreamId) {
+        media.video.srcObject = tile.videoStream;
+        media.videoStreamId = videoStreamId;
+        if (tile.videoStream) media.video.play().catch(() => {});
+      }
+
+      const audioStream = tile.audioStream && tile.audioStream.getAudioTracks().length > 0 ? tile.audioStream : null;
+      const audioStreamId = audioStream?.id ?? null;
+      if (media.audioStreamId !== audioStreamId) {
+        media.audio?.disconnect();
+        media.audio = null;
+        media.audioStreamId = audioStreamId;
+        if (audioStream && this.audioContext && this.audioDestination) {
+          try {
+            media.audio = this.audioContext.createMediaStreamSource(audioStream);
+            media.audio.connect(this.audioDestination);
+          } catch (e) {
+            console.warn(`MeetingRecorder: Could not mix audio for ${tile.id}`, e);
+          }
+        }
+      }
+    });
+  }
+
+  private release(id: string) {
+    const media = this.media.get(id);
+    if (!media) return;
+    media.audio?.disconnect();
+    media.video.srcObject = null;
+    this.media.delete(id);
+  }
+
+  // --- DRAWING ---
+
+  private draw() {
+    const ctx = this.context;
+    if (!ctx || !this.getScene) return;
+
+    const scene = this.getScene();
+    this.sync(scene.tiles);
+
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+    const featured = scene.layout === 'speaker'
+      ? scene.tiles.find(tile => tile.id === scene.featuredId) ?? scene.tiles[0]
+      : undefined;
+
+    if (featured) {
+      const others = scene.tiles.filter(tile => tile !== featured);
+      const stripHeight = others.length > 0 ? Math.round(HEIGHT / 5) : 0;
+      this.drawTile(featured, { x: 0, y: 0, w: WIDTH, h: HEIGHT - stripHeight - (stripHeight ? TILE_GAP : 0) });
+
+      const thumbWidth = Math.min(Math.round(stripHeight * 16 / 9), (WIDTH - TILE_GAP * (others.length - 1)) / Math.max(others.length, 1));
+      const stripWidth = thumbWidth * others.length + TILE_GAP * (others.length - 1);
+      others.forEach((tile, i) => this.drawTile(tile, {
+        x: (WIDTH - stripWidth) / 2 + i * (thumbWidth + TILE_GAP),
+        y: HEIGHT - stripHeight,
+        w: thumbWidth,
+        h: stripHeight
+      }));
+      return;
+    }
+
+    const count = Math.max(scene.tiles.length, 1);
+    const cols = Math.ceil(Math.sqrt(count));
+    const rows = Math.ceil(count / cols);
+    const w = (WIDTH - TILE_GAP * (cols - 1)) / cols;
+    const h = (HEIGHT - TILE_GAP * (rows - 1)) / rows;
+    scene.tiles.forEach((tile, i) => this.drawTile(tile, {
+      x: (i % cols) * (w + TILE_GAP),
+      y: Math.floor(i / cols) * (h + TILE_GAP),
+      w, h
+    }));
+  }
+
+  private drawTile(tile: RecordingTile, rect: Rect) {
+    const ctx = this.context!;
+    const video = this.media.get(tile.id)?.video;
+
+    ctx.fillStyle = '#1f2937';
+    ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+
+    if (tile.hasVideo && video && video.readyState >= 2 && video.videoWidth > 0) {
+      // Screens are letterboxed so nothing is cut off; cameras fill the tile
+      const scale = tile.isScreenSharing
+        ? Math.min(rect.w / video.videoWidth, rect.h / video.videoHeight)
+        : Math.max(rect.w / video.videoWidth, rect.h / video.videoHeight);
+      const dw = video.videoWidth * scale;
+      const dh = video.videoHeight * scale;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(rect.x, rect.y, rect.w, rect.h);
+      ctx.clip();
+      ctx.drawImage(video, rect.x + (rect.w - dw) / 2, rect.y + (rect.h - dh) / 2, dw, dh);
+      ctx.restore();
+    } else {
+      const radius = Math.min(rect.w, rect.h) / 6;
+      ctx.fillStyle = '#4f46e5';
+      ctx.beginPath();
+      ctx.arc(rect.x + rect.w / 2, rect.y + rect.h / 2, radius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#ffffff';
+      ctx.font = `bold ${Math.round(radius)}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText((tile.name || '?').charAt(0).toUpperCase(), rect.x + rect.w / 2, rect.y + rect.h / 2);
+    }
+
+    // Name tag
+    const fontSize = Math.max(12, Math.round(rect.h / 18));
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    const label = tile.name.length > 32 ? `${tile.name.slice(0, 31)}…` : tile.name;
+    const labelWidth = ctx.measureText(label).width + fontSize;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(rect.x + 8, rect.y + rect.h - fontSize * 2 - 8, labelWidth, fontSize * 2);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(label, rect.x + 8 + fontSize / 2, rect.y + rect.h - fontSize - 8);
+  }
+}
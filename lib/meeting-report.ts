@@ -0,0 +1,121 @@
+// Meeting transcript and attendance export. Everything is built from the local
+// MeetingManager state, so the report covers what this client saw while it was in
+// the room. Private messages stay out of it.
+import { AttendanceRecord, AttendanceSession, ChatMessage, SharedFile } from "@/lib/types";
+import { formatFileSize } from "@/lib/utils";
+
+export type ReportFormat = 'markdown' | 'json' | 'csv';
+
+export interface ReportMessage {
+  timestamp: number;
+  sender: string;
+  text: string;
+  kind: 'chat' | 'system' | 'file';
+  editedAt?: number;
+}
+
+export interface MeetingReport {
+  roomId: string | null;
+  roomTitle: string;
+  recordedBy: string;
+  startedAt: number; // When this client entered the meeting
+  endedAt: number;
+  attendance: AttendanceRecord[];
+  messages: ReportMessage[];
+}
+
+export const REPORT_FILE_TYPES: Record<ReportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+};
+
+export function toReportMessages(messages: ChatMessage[], files: Record<string, SharedFile>): ReportMessage[] {
+  return messages
+    .filter(m => !m.recipientId && !m.deleted)
+    .map(m => {
+      if (m.isSystem) return { timestamp: m.timestamp, sender: m.senderName, text: m.text, kind: 'system' as const };
+      if (m.fileId) {
+        const size = files[m.fileId] ? ` (${formatFileSize(files[m.fileId].size)})` : '';
+        return { timestamp: m.timestamp, sender: m.senderName, text: `${m.text}${size}`, kind: 'file' as const };
+      }
+      return { timestamp: m.timestamp, sender: m.senderName, text: m.text, kind: 'chat' as const, ...(m.editedAt ? { editedAt: m.editedAt } : {}) };
+    });
+}
+
+function iso(timestamp: number) {
+  return new Date(timestamp).toISOString();
+}
+
+function sessionMinutes(session: AttendanceSession, endedAt: number) {
+  return Math.round(((session.leftAt ?? endedAt) - session.joinedAt) / 60000);
+}
+
+// --- MARKDOWN ---
+
+function escapeMarkdown(text: string) {
+  return text.replace(/([\\`*_[\]|<>#])/g, '\\$1').replace(/\r?\n/g, ' ');
+}
+
+function toMarkdown(report: MeetingReport) {
+  const lines = [
+    `# ${escapeMarkdown(report.roomTitle)}`,
+    '',
+    `- Start: ${iso(report.startedAt)}`,
+    `- End: ${iso(report.endedAt)}`,
+    `- Recorded by: ${escapeMarkdown(report.recordedBy)}`,
+    '',
+    '## Attendance',
+    '',
+    '| Name | Role | Joined | Left | Minutes |',
+    '| --- | --- | --- | --- | --- |',
+  ];
+  report.attendance.forEach(record => {
+    record.sessions.forEach(session => {
+      lines.push(`| ${escapeMarkdown(record.name)} | ${record.role} | ${iso(session.joinedAt)} | ${session.leftAt ? iso(session.leftAt) : 'still present'} | ${sessionMinutes(session, report.endedAt)} |`);
+    });
+  });
+
+  lines.push('', '## Chat', '');
+  if (report.messages.length === 0) lines.push('_No messages._');
+  report.messages.forEach(m => {
+    const time = new Date(m.timestamp).toISOString().slice(11, 19);
+    if (m.kind === 'system') lines.push(`- ${time} _${escapeMarkdown(m.text)}_`);
+    else if (m.kind === 'file') lines.push(`- ${time} **${escapeMarkdown(m.sender)}** shared a file: ${escapeMarkdown(m.text)}`);
+    else lines.push(`- ${time} **${escapeMarkdown(m.sender)}**: ${escapeMarkdown(m.text)}${m.editedAt ? ' _(edited)_' : ''}`);
+  });
+  return lines.join('\n') + '\n';
+}
+
+// --- CSV ---
+
+function csvCell(value: string | number) {
+  const text = String(value);
+  // Quote anything a spreadsheet would misread, and defuse formula injection
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) || safe !== text ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// A single chronological timeline of the meeting's bounds, joins, leaves and messages
+function toCsv(report: MeetingReport) {
+  const rows: { timestamp: number; cells: (string | number)[] }[] = [
+    { timestamp: report.startedAt, cells: ['meeting-start', iso(report.startedAt), '', '', report.roomTitle] },
+    { timestamp: report.endedAt, cells: ['meeting-end', iso(report.endedAt), '', '', report.roomTitle] },
+  ];
+  report.attendance.forEach(record => record.sessions.forEach(session => {
+    rows.push({ timestamp: session.joinedAt, cells: ['join', iso(session.joinedAt), record.name, record.role, ''] });
+    if (session.leftAt) rows.push({ timestamp: session.leftAt, cells: ['leave', iso(session.leftAt), record.name, record.role, ''] });
+  }));
+  report.messages.forEach(m => rows.push({ timestamp: m.timestamp, cells: [m.kind, iso(m.timestamp), m.sender, '', m.text] }));
+
+  rows.sort((a, b) => a.timestamp - b.timestamp);
+  return [['event', 'time', 'name', 'role', 'detail'], ...rows.map(r => r.cells)]
+    .map(cells => cells.map(csvCell).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+export function formatMeetingReport(report: MeetingReport, format: ReportFormat) {
+  if (format === 'json') return JSON.stringify(report, null, 2);
+  if (format === 'csv') return toCsv(report);
+  return toMarkdown(report);
+}
@@ -0,0 +1,51 @@
+// Participant passcode challenge-response for join requests.
+// The passcode never crosses the data channel: both sides stretch it into an HMAC key
+// salted with the room id, the host sends a random nonce, and the joiner answers with
+// HMAC(key, nonce | host id | joiner id). Binding both peer ids stops a proof from
+// being replayed to another host or on behalf of another peer.
+import { bytesToBase64, base64ToBytes } from "@/lib/utils";
+
+const PBKDF2_ITERATIONS = 100_000;
+const NONCE_BYTES = 16;
+
+export function isPasscodeSupported() {
+  return typeof crypto !== 'undefined' && !!crypto.subtle;
+}
+
+// Base64 HMAC key; hosts hand it to their successors instead of the passcode itself
+export async function derivePasscodeKey(roomId: string, passcode: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passcode.normalize('NFC')), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(`p2p-meeting-passcode:${roomId}`), iterations: PBKDF2_ITERATIONS },
+    material,
+    256
+  );
+  return bytesToBase64(bits);
+}
+
+export function createPasscodeChallenge(): string {
+  return bytesToBase64(crypto.getRandomValues(new Uint8Array(NONCE_BYTES)));
+}
+
+function importHmacKey(key: string, usage: 'sign' | 'verify') {
+  return crypto.subtle.importKey('raw', base64ToBytes(key), { name: 'HMAC', hash: 'SHA-256' }, false, [usage]);
+}
+
+function challengeData(nonce: string, hostId: string, joinerId: string) {
+  return new TextEncoder().encode(`${nonce}|${hostId}|${joinerId}`);
+}
+
+export async function answerPasscodeChallenge(key: string, nonce: string, hostId: string, joinerId: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await importHmacKey(key, 'sign'), challengeData(nonce, hostId, joinerId));
+  return bytesToBase64(signature);
+}
+
+export async function verifyPasscodeAnswer(key: string, nonce: string, hostId: string, joinerId: string, proof: string): Promise<boolean> {
+  try {
+    // subtle.verify compares in constant time
+    return await crypto.subtle.verify('HMAC', await importHmacKey(key, 'verify'), base64ToBytes(proof), challengeData(nonce, hostId, joinerId));
+  } catch {
+    return false; // Malformed base64
+  }
+}
@@ -0,0 +1,28 @@
+// Where the managers get their PeerJS peers and local media from. The browser implementations
+// are the defaults; tests hand in the in-process fake network from tests/fake-peer-network.ts.
+import Peer, { PeerJSOption } from "peerjs";
+import { SignalingConfig } from "@/lib/types";
+import { loadSignalingConfig } from "@/lib/signaling-config";
+
+export interface PeerFactory {
+  loadConfig(): Promise<SignalingConfig>;
+  createPeer(options: PeerJSOption): Peer;
+}
+
+export interface MediaFactory {
+  getUserMedia(constraints: MediaStreamConstraints): Promise<MediaStream>;
+  getDisplayMedia(options: DisplayMediaStreamOptions): Promise<MediaStream>;
+  createStream(tracks: MediaStreamTrack[]): MediaStream;
+}
+
+export const browserPeerFactory: PeerFactory = {
+  loadConfig: loadSignalingConfig,
+  createPeer: options => new Peer(options),
+};
+
+// navigator is looked up per call: the managers are also constructed during server rendering
+export const browserMediaFactory: MediaFactory = {
+  getUserMedia: constraints => navigator.mediaDevices.getUserMedia(constraints),
+  getDisplayMedia: options => navigator.mediaDevices.getDisplayMedia(options),
+  createStream: tracks => new MediaStream(tracks),
+};
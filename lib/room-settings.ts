@@ -0,0 +1,58 @@
+// Defaults and validation for the per-room feature switches. Rooms stored before the
+// switches existed only carry maxParticipants, so reads fill in the rest.
+import { RoomSettings, MeetingTopology, TopologyMode } from "@/lib/types";
+
+export const MIN_ROOM_PARTICIPANTS = 2;
+export const MAX_ROOM_PARTICIPANTS = 50; // Past this the mesh uplink gives out anyway
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  maxParticipants: 20,
+  allowWaitingRoom: true,
+  muteOnEntry: false,
+  videoOnEntry: true,
+  enableChat: true,
+  enableScreenShare: true,
+  topology: 'auto',
+};
+
+export const ROOM_SETTING_FLAGS = ['allowWaitingRoom', 'muteOnEntry', 'videoOnEntry', 'enableChat', 'enableScreenShare'] as const;
+
+export const TOPOLOGY_MODES: TopologyMode[] = ['auto', 'mesh', 'star'];
+
+// Past this many people (host included) an 'auto' room stops meshing; most uplinks manage about five calls
+export const STAR_TOPOLOGY_THRESHOLD = 6;
+
+export function resolveTopology(mode: TopologyMode, participantCount: number): MeetingTopology {
+  if (mode === 'auto') return participantCount > STAR_TOPOLOGY_THRESHOLD ? 'star' : 'mesh';
+  return mode;
+}
+
+// Just the switches, without anything else stored alongside them
+export function pickRoomSettings(settings: RoomSettings): RoomSettings {
+  const { maxParticipants, allowWaitingRoom, muteOnEntry, videoOnEntry, enableChat, enableScreenShare, topology } = settings;
+  return { maxParticipants, allowWaitingRoom, muteOnEntry, videoOnEntry, enableChat, enableScreenShare, topology };
+}
+
+// Picks the known switches out of a request body; null if any of them is malformed
+export function parseRoomSettings(input: unknown): Partial<RoomSettings> | null {
+  if (input === undefined) return {};
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) return null;
+  const record = input as Record<string, unknown>;
+  const settings: Partial<RoomSettings> = {};
+
+  for (const flag of ROOM_SETTING_FLAGS) {
+    if (record[flag] === undefined) continue;
+    if (typeof record[flag] !== 'boolean') return null;
+    settings[flag] = record[flag];
+  }
+  if (record.maxParticipants !== undefined) {
+    const max = record.maxParticipants;
+    if (typeof max !== 'number' || !Number.isInteger(max) || max < MIN_ROOM_PARTICIPANTS || max > MAX_ROOM_PARTICIPANTS) return null;
+    settings.maxParticipants = max;
+  }
+  if (record.topology !== undefined) {
+    if (!TOPOLOGY_MODES.includes(record.topology as TopologyMode)) return null;
+    settings.topology = record.topology as TopologyMode;
+  }
+  return settings;
+}
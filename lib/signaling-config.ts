@@ -0,0 +1,128 @@
+// Where PeerJS finds its signaling server: the broker that introduces peers to each other.
+// Media and data never pass through it, but nobody can join or call without it. Defaults to
+// the public PeerJS cloud; self-hosted deployments point it at their own PeerServer with the
+// PEER_SERVER_* variables (read by /api/signaling-config at runtime) or, for static builds,
+// the NEXT_PUBLIC_PEER_SERVER_* ones baked in at build time.
+import type { PeerError, PeerJSOption } from "peerjs";
+import { SignalingConfig } from "@/lib/types";
+
+export const DEFAULT_SIGNALING_CONFIG: SignalingConfig = {
+  host: "0.peerjs.com",
+  port: 443,
+  path: "/",
+  key: "peerjs",
+  secure: true,
+};
+
+export const SIGNALING_CONFIG_ENDPOINT = "/api/signaling-config";
+
+// What went wrong with the broker, in terms the UI can explain
+export type SignalingErrorKind = 'unreachable' | 'lost' | 'invalid-key' | 'ssl' | 'config';
+
+export class SignalingConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SignalingConfigError";
+  }
+}
+
+type SignalingEnv = Partial<Record<'host' | 'port' | 'path' | 'key' | 'secure', string | undefined>>;
+
+// Unset variables keep the default; set but malformed ones are an error rather than a silent fallback to the cloud
+export function parseSignalingEnv(env: SignalingEnv): SignalingConfig {
+  const config = { ...DEFAULT_SIGNALING_CONFIG };
+
+  if (env.host) {
+    if (!/^[a-z0-9.-]+$/i.test(env.host)) throw new SignalingConfigError(`Invalid signaling host "${env.host}"`);
+    config.host = env.host;
+    // A self-hosted server usually listens on its own port without TLS; say so explicitly otherwise
+    if (!env.port) config.port = 9000;
+    if (!env.secure) config.secure = false;
+  }
+  if (env.port) {
+    const port = Number(env.port);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) throw new SignalingConfigError(`Invalid signaling port "${env.port}"`);
+    config.port = port;
+  }
+  if (env.path) {
+    if (!env.path.startsWith("/")) throw new SignalingConfigError(`Signaling path must start with "/"`);
+    config.path = env.path;
+  }
+  if (env.key) config.key = env.key;
+  if (env.secure) {
+    if (env.secure !== "true" && env.secure !== "false") throw new SignalingConfigError(`Signaling secure must be "true" or "false"`);
+    config.secure = env.secure === "true";
+  }
+  return config;
+}
+
+// Server side: the runtime configuration /api/signaling-config hands out
+export function signalingConfigFromEnv(): SignalingConfig {
+  return parseSignalingEnv({
+    host: process.env.PEER_SERVER_HOST,
+    port: process.env.PEER_SERVER_PORT,
+    path: process.env.PEER_SERVER_PATH,
+    key: process.env.PEER_SERVER_KEY,
+    secure: process.env.PEER_SERVER_SECURE,
+  });
+}
+
+// Next.js only inlines NEXT_PUBLIC_ variables it can see spelled out in full
+const BUILD_TIME_ENV: SignalingEnv = {
+  host: process.env.NEXT_PUBLIC_PEER_SERVER_HOST,
+  port: process.env.NEXT_PUBLIC_PEER_SERVER_PORT,
+  path: process.env.NEXT_PUBLIC_PEER_SERVER_PATH,
+  key: process.env.NEXT_PUBLIC_PEER_SERVER_KEY,
+  secure: process.env.NEXT_PUBLIC_PEER_SERVER_SECURE,
+};
+
+function isSignalingConfig(value: unknown): value is SignalingConfig {
+  if (typeof value !== 'object' || value === null) return false;
+  const { host, port, path, key, secure } = value as Record<string, unknown>;
+  return typeof host === 'string' && typeof port === 'number' && typeof path === 'string'
+    && typeof key === 'string' && typeof secure === 'boolean';
+}
+
+let configPromise: Promise<SignalingConfig> | null = null;
+
+// Client side: build-time variables win; otherwise ask the server once per page load
+export function loadSignalingConfig(): Promise<SignalingConfig> {
+  if (BUILD_TIME_ENV.host) return Promise.resolve(parseSignalingEnv(BUILD_TIME_ENV));
+
+  configPromise ??= (async () => {
+    const res = await fetch(SIGNALING_CONFIG_ENDPOINT);
+    const data = await res.json().catch(() => null);
+    if (!res.ok || !isSignalingConfig(data?.config)) {
+      throw new SignalingConfigError(data?.error || `Signaling configuration unavailable (${res.status})`);
+    }
+    return data.config;
+  })();
+  // A failed load may be a blip; let the next attempt try again
+  configPromise.catch(() => { configPromise = null; });
+  return configPromise;
+}
+
+export function peerOptions(config: SignalingConfig): PeerJSOption {
+  return { host: config.host, port: config.port, path: config.path, key: config.key, secure: config.secure };
+}
+
+export function describeSignalingConfig(config: SignalingConfig) {
+  return `${config.secure ? 'wss' : 'ws'}://${config.host}:${config.port}${config.path}`;
+}
+
+// Which PeerJS errors are about the broker rather than a particular peer; null for the rest
+export function classifySignalingError(error: PeerError<string>): SignalingErrorKind | null {
+  switch (error.type) {
+    case 'network':
+    case 'server-error':
+    case 'socket-error':
+    case 'socket-closed':
+      return 'unreachable';
+    case 'invalid-key':
+      return 'invalid-key';
+    case 'ssl-unavailable':
+      return 'ssl';
+    default:
+      return null;
+  }
+}
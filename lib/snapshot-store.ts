@@ -0,0 +1,112 @@
+// Immutable snapshots of a mutable working state, for useSyncExternalStore.
+// The owner mutates its draft freely and calls publish(); the store compares the draft with
+// the previous snapshot and copies only what differs. Everything else, down to a single
+// participant, keeps its frozen object, so memoized components skip it and an unchanged
+// message list costs a walk rather than a copy.
+
+type Listener = () => void;
+
+// Plain objects and arrays are copied and compared field by field; anything else
+// (MediaStream, DataConnection, Blob...) is shared by identity
+function isPlain(value: unknown): value is Record<string, unknown> | unknown[] {
+  if (Array.isArray(value)) return true;
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+// Participants, messages, waiting peers and the like are matched by id, so removing one
+// from the middle of a list does not look like a change to everyone after it
+function keyOf(value: unknown): string | undefined {
+  if (!isPlain(value) || Array.isArray(value)) return undefined;
+  const key = value.id ?? value.peerId;
+  return typeof key === 'string' ? key : undefined;
+}
+
+// Copies are only started at the first difference, so an unchanged list or object allocates nothing
+function shareArray(prev: unknown, next: unknown[]): unknown[] {
+  const previous = Array.isArray(prev) ? prev : [];
+  let byKey: Map<string, unknown> | null = null;
+  const counterpart = (item: unknown, i: number) => {
+    const key = keyOf(item);
+    if (key === undefined || keyOf(previous[i]) === key) return previous[i];
+    if (!byKey) {
+      byKey = new Map();
+      previous.forEach(old => {
+        const oldKey = keyOf(old);
+        if (oldKey !== undefined) byKey!.set(oldKey, old);
+      });
+    }
+    return byKey.get(key);
+  };
+
+  let items: unknown[] | null = previous.length === next.length ? null : [];
+  next.forEach((item, i) => {
+    const value = share(counterpart(item, i), item);
+    if (!items && value === previous[i]) return;
+    items ??= previous.slice(0, i);
+    items.push(value);
+  });
+  return items ? Object.freeze(items) as unknown[] : previous;
+}
+
+function shareObject(prev: unknown, next: Record<string, unknown>): Record<string, unknown> {
+  const previous = isPlain(prev) && !Array.isArray(prev) ? prev : null;
+  const keys = Object.keys(next);
+  let copy: Record<string, unknown> | null = previous && Object.keys(previous).length === keys.length ? null : {};
+
+  keys.forEach((key, i) => {
+    const value = share(previous?.[key], next[key]);
+    if (!copy && key in previous! && Object.is(value, previous![key])) return;
+    if (!copy) {
+      copy = {};
+      keys.slice(0, i).forEach(same => { copy![same] = previous![same]; });
+    }
+    copy[key] = value;
+  });
+  return copy ? Object.freeze(copy) : previous!;
+}
+
+// `next` with every part that equals its counterpart in `prev` replaced by that counterpart
+export function share<T>(prev: unknown, next: T): T {
+  // Already part of a snapshot, or not ours to copy
+  if (!isPlain(next) || Object.isFrozen(next)) return next;
+  return (Array.isArray(next) ? shareArray(prev, next) : shareObject(prev, next)) as T;
+}
+
+export class SnapshotStore<T extends object> {
+  private snapshot: T;
+  private listeners: Set<Listener> = new Set();
+
+  constructor(initial: T) {
+    this.snapshot = share(undefined, initial);
+  }
+
+  // Arrow properties so they can be handed to useSyncExternalStore as they are
+  getSnapshot = (): T => this.snapshot;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  // Listeners only hear about drafts that actually changed something. An owner that knows
+  // which top-level slices it touched names them, and the rest are not even compared.
+  publish(draft: T, changed?: (keyof T)[]) {
+    const next = changed ? this.shareSlices(draft, changed) : share(this.snapshot, draft);
+    if (next === this.snapshot) return;
+    this.snapshot = next;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private shareSlices(draft: T, changed: (keyof T)[]): T {
+    let copy: T | null = null;
+    changed.forEach(key => {
+      const value = share(this.snapshot[key], draft[key]);
+      if (Object.is(value, this.snapshot[key])) return;
+      copy ??= { ...this.snapshot };
+      copy[key] = value;
+    });
+    return copy ? Object.freeze(copy) : this.snapshot;
+  }
+}
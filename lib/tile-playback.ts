@@ -0,0 +1,20 @@
+// Decides what a participant tile does with its stream. The tile's media element is also what
+// plays the participant's voice, so it keeps the stream whenever there is something to hear,
+// even while the picture is swapped for an avatar.
+
+export interface TilePlayback {
+  showVideo: boolean; // Draw the picture rather than the avatar
+  attachStream: boolean; // Keep the stream on the media element
+}
+
+export function tilePlayback(
+  stream: MediaStream | null,
+  { isLocal, isVideoEnabled }: { isLocal: boolean; isVideoEnabled: boolean }
+): TilePlayback {
+  const live = stream?.active ? stream : null;
+  const videoTrack = live?.getVideoTracks()[0];
+  const showVideo = isVideoEnabled && !!videoTrack?.enabled;
+  // The local tile is muted to prevent echo, so without a picture it has nothing to play
+  const playsAudio = !!live && !isLocal && live.getAudioTracks().length > 0;
+  return { showVideo, attachStream: showVideo || playsAudio };
+}
@@ -0,0 +1,40 @@
+// A small event emitter whose event names and payloads are checked by the compiler.
+// Events is a map from event name to payload type.
+
+type Listener<T> = (payload: T) => void;
+
+export class TypedEmitter<Events extends { [K in keyof Events]: unknown }> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  // Returns the matching unsubscribe, like subscribe() on the state store
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    const listeners = this.listeners[event] ?? new Set();
+    listeners.add(listener);
+    this.listeners[event] = listeners;
+    return () => this.off(event, listener);
+  }
+
+  once<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    const off = this.on(event, payload => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    // A copy, so listeners can unsubscribe while we iterate
+    Array.from(this.listeners[event] ?? []).forEach(listener => {
+      // One broken integration must not stop the others, or the meeting
+      try {
+        listener(payload);
+      } catch (e) {
+        console.error(`Listener for "${String(event)}" failed`, e);
+      }
+    });
+  }
+}
@@ -7,6 +7,10 @@ export interface RoomData {
   title: string
   masterPassword: string // Plain text master password (for simplicity)
   hostPeerId: string | null
+  hostToken?: string | null // Lets whoever is host now name a successor; a host that took over has no master password
+  successorPeerId?: string | null // The one participant allowed to take over if the host drops
+  successionToken?: string | null // Given only to successorPeerId; replaced whenever the host names someone
+  participantPasscode?: string | null // Optional code joiners must prove they know; separate from masterPassword
   createdAt: number
   participants: {
     id: string
@@ -15,11 +19,28 @@ export interface RoomData {
     status: 'waiting' | 'active'
     joinedAt: number
   }[]
-  settings: {
-    maxParticipants: number
+  settings: RoomSettings & {
+    autoAdmitWithPasscode?: boolean // Admit joiners who prove the passcode without asking the host
   }
 }
 
+// Feature switches the host sets per room; MeetingManager enforces them in the meeting
+export interface RoomSettings {
+  maxParticipants: number // Including the host
+  allowWaitingRoom: boolean // Off: joiners are admitted without asking the host
+  muteOnEntry: boolean
+  videoOnEntry: boolean
+  enableChat: boolean // Off: only the host can post
+  enableScreenShare: boolean // Off: only the host can present
+  topology: TopologyMode
+}
+
+// How media flows: everyone calls everyone, or everyone calls the host and the host forwards
+export type MeetingTopology = 'mesh' | 'star'
+
+// 'auto' starts as a mesh and switches to a star once the room outgrows it
+export type TopologyMode = 'auto' | MeetingTopology
+
 // Response when fetching room info (hides password)
 export interface PublicRoomInfo {
   id: string
@@ -27,6 +48,7 @@ export interface PublicRoomInfo {
   createdAt: number
   participantCount: number
   hostConnected: boolean
+  requiresPasscode: boolean
 }
 
 // Local storage structure for room management
@@ -35,17 +57,21 @@ export interface LocalRoomData {
   title: string
   createdAt: number
   lastAccessed: number
+  shareChatHistory?: boolean // Host preference: send earlier chat to late joiners (default on)
 }
 
 export interface Participant {
   id: string
   name: string
   role: 'host' | 'participant'
-  status: 'connecting' | 'waiting' | 'connected' | 'disconnected'
+  status: 'connecting' | 'waiting' | 'connected' | 'reconnecting' | 'disconnected'
   hasVideo: boolean
   hasAudio: boolean
   isScreenSharing?: boolean // Added for screen share status
+  approvedAt?: number // When the host admitted them; decides the line of succession
+  handRaisedAt?: number // Set while their hand is up; orders the speaking queue
   stream?: MediaStream
+  screenStream?: MediaStream // Their shared screen, received on its own call
 }
 
 // Added Chat Message Type
@@ -56,6 +82,83 @@ export interface ChatMessage {
   text: string;
   timestamp: number;
   isSystem?: boolean; // For "User joined/left" messages
+  recipientId?: string; // Direct message: only the sender and this peer see it
+  fileId?: string; // A file shared in chat; see SharedFile
+  editedAt?: number;
+  deleted?: boolean; // Text is cleared; a placeholder keeps the thread readable
+  reactions?: Record<string, string[]>; // Emoji -> ids of the peers who reacted
+}
+
+// One stretch of time a participant spent in the meeting
+export interface AttendanceSession {
+  joinedAt: number;
+  leftAt: number | null; // Null while still present
+}
+
+export interface AttendanceRecord {
+  peerId: string;
+  name: string;
+  role: 'host' | 'participant';
+  sessions: AttendanceSession[];
+}
+
+// A file someone shared in the meeting chat
+export interface SharedFile {
+  id: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  senderId: string;
+  thumbnail?: string; // JPEG data URL, images only
+  status: 'available' | 'downloading' | 'complete' | 'failed' | 'unavailable';
+  progress: number; // 0-1, our own download
+  url?: string; // Object URL once the whole file is here
+  uploads: Record<string, number>; // Files we shared: progress (0-1) of each recipient's download
+}
+
+// Camera, microphone or speaker the user can pick
+export interface MediaDeviceOption {
+  deviceId: string;
+  kind: MediaDeviceKind;
+  label: string; // Empty until the user has granted media permission
+}
+
+export interface MeetingDevices {
+  audioInput: MediaDeviceOption[];
+  videoInput: MediaDeviceOption[];
+  audioOutput: MediaDeviceOption[];
+}
+
+// null means "system default"
+export interface MediaDeviceSelection {
+  audioInputId: string | null;
+  videoInputId: string | null;
+  audioOutputId: string | null;
+}
+
+// How the local mic is processed before it goes out
+export interface AudioProcessingSettings {
+  inputGain: number; // 1 leaves the level as is
+  noiseGate: boolean;
+  noiseSuppression: boolean; // Browser processing, applied as getUserMedia constraints
+  echoCancellation: boolean;
+}
+
+// The PeerJS signaling server (PeerServer) both managers register with
+export interface SignalingConfig {
+  host: string;
+  port: number;
+  path: string;
+  key: string;
+  secure: boolean; // wss rather than ws
+}
+
+// Transient emoji shown over the sender's tile
+export interface Reaction {
+  id: string;
+  peerId: string;
+  emoji: string;
+  timestamp: number;
 }
 
 export interface LogEntry {
@@ -137,3 +240,22 @@ export interface CreateRoomRequest {
     autoRecord?: boolean
   }
 }
+
+export type ConnectionQuality = 'excellent' | 'good' | 'poor' | 'bad' | 'unknown';
+
+// ICE candidate type of the pair a call is actually using
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+// Snapshot of one call's RTCPeerConnection, derived from getStats()
+export interface CallStats {
+  timestamp: number;
+  rtt: number | null; // Round-trip time in ms
+  packetLoss: number | null; // Fraction of inbound packets lost since the previous sample (0..1)
+  jitter: number | null; // Inbound jitter in ms
+  inboundBitrate: number | null; // bits/s
+  outboundBitrate: number | null; // bits/s
+  resolution: { width: number; height: number } | null; // Inbound video
+  frameRate: number | null; // Inbound video
+  candidateType: CandidateType | null;
+  quality: ConnectionQuality;
+}
@@ -20,6 +20,12 @@ export function generateSessionId(): string {
   return Math.random().toString(36).substr(2, 9)
 }
 
+export function generateSecureToken(bytes: number = 16): string {
+  const array = new Uint8Array(bytes)
+  crypto.getRandomValues(array)
+  return Array.from(array, b => b.toString(16).padStart(2, '0')).join('')
+}
+
 export function generateVerificationCode(): string {
   return Math.floor(100000 + Math.random() * 900000).toString()
 }
@@ -121,8 +127,25 @@ export function assembleArrayBufferChunks(chunks: ArrayBuffer[]): ArrayBuffer {
   return assembled
 }
 
+export function bytesToBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+  let binary = ''
+  bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary)
+}
+
+export function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
 export function saveArrayBufferAsFile(data: ArrayBuffer, filename: string, mimeType?: string) {
-  const blob = new Blob([data], { type: mimeType || 'application/octet-stream' })
+  saveBlobAsFile(new Blob([data], { type: mimeType || 'application/octet-stream' }), filename)
+}
+
+export function saveBlobAsFile(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob)
   
   const link = document.createElement('a')
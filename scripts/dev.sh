@@ -4,4 +4,11 @@ source <(grep -v '^#' $DIR/../.env.local | grep -v '^$' | sed 's/^/export /')
 
 cd $DIR/..
 
+# Self-hosted signaling: run a local PeerServer beside the app
+if [ "$PEER_SERVER_LOCAL" = "true" ]; then
+  $DIR/peer-server.sh &
+  PEER_SERVER_PID=$!
+  trap 'kill $PEER_SERVER_PID' EXIT
+fi
+
 pnpm dev
\ No newline at end of file
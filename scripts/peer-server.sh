@@ -0,0 +1,12 @@
+#!/bin/bash
+
+# Runs a PeerJS signaling server (PeerServer) for self-hosted deployments.
+# Point the app at it with PEER_SERVER_HOST / PEER_SERVER_PORT / PEER_SERVER_PATH / PEER_SERVER_KEY in .env.local.
+
+# set DIR as the current scripts directory
+DIR=$( cd -- "$( dirname -- "${BASH_SOURCE[0]}" )" &> /dev/null && pwd )
+source <(grep -v '^#' $DIR/../.env.local | grep -v '^$' | sed 's/^/export /')
+
+cd $DIR/..
+
+exec pnpm dlx peer --port "${PEER_SERVER_PORT:-9000}" --path "${PEER_SERVER_PATH:-/}" --key "${PEER_SERVER_KEY:-peerjs}"
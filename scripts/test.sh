@@ -0,0 +1,8 @@
+#!/bin/bash
+
+# set DIR as the current scripts directory
+DIR=$( cd -- "$( dirname -- "${BASH_SOURCE[0]}" )" &> /dev/null && pwd )
+
+cd $DIR/..
+
+node --import tsx --test tests/*.test.ts
@@ -1,21 +1,161 @@
 "use client";
 
-import Peer, { DataConnection, MediaConnection } from "peerjs";
-import { Participant, ConnectionState, ChatMessage } from "@/lib/types";
+import Peer, { DataConnection, MediaConnection, PeerError } from "peerjs";
+import {
+  Participant, ConnectionState, ChatMessage, Reaction, MediaDeviceOption, MeetingDevices, MediaDeviceSelection,
+  CallStats, ConnectionQuality, SharedFile, AttendanceRecord, RoomSettings, AudioProcessingSettings, MeetingTopology, SignalingConfig
+} from "@/lib/types";
+import { generateSecureToken } from "@/lib/utils";
+import { SnapshotStore } from "@/lib/snapshot-store";
+import { TypedEmitter } from "@/lib/typed-emitter";
+import { AudioLevelMonitor, ActiveSpeakerDetector, SPEAKING_THRESHOLD } from "@/lib/audio-level-monitor";
+import { AudioProcessor, DEFAULT_AUDIO_PROCESSING, audioConstraints, isAudioProcessingSupported } from "@/lib/audio-processing";
+import { StatsCounters, sampleCallStats } from "@/lib/call-stats";
+import { computeSenderEncoding, SenderEncoding } from "@/lib/encoding-policy";
+import { createIceRestartOffer, applyIceRestartDescription, reconnectDelay } from "@/lib/ice-restart";
+import { MeetingRecorder, RecordingLayout, RecordingScene, RecordingTile } from "@/lib/meeting-recorder";
+import {
+  isDirectMessagingSupported, generateKeyPair, exportPublicKey, deriveSharedKey, encryptText, decryptText
+} from "@/lib/dm-crypto";
+import { MeetingReport, toReportMessages } from "@/lib/meeting-report";
+import { DEFAULT_ROOM_SETTINGS, pickRoomSettings, resolveTopology } from "@/lib/room-settings";
+import {
+  SignalingErrorKind, peerOptions, describeSignalingConfig, classifySignalingError
+} from "@/lib/signaling-config";
+import { PeerFactory, MediaFactory, browserPeerFactory, browserMediaFactory } from "@/lib/peer-factory";
+import {
+  isPasscodeSupported, derivePasscodeKey, createPasscodeChallenge, answerPasscodeChallenge, verifyPasscodeAnswer
+} from "@/lib/passcode";
+import {
+  MAX_SHARED_FILE_SIZE, ChunkAssembler, countChunks, readChunk, waitForBufferSpace, createThumbnail
+} from "@/lib/file-transfer";
+import {
+  MeetingMessage, ModerationAction, ReactionEmoji, PeerProtocol, PROTOCOL_VERSION, MIN_PROTOCOL_VERSION,
+  ChatEntry, CHAT_HISTORY_LIMIT, encodeMessage, parseMessage, createHello, peerSupports
+} from "@/lib/meeting-protocol";
+
+const REACTION_DURATION = 4000;
+const AUDIO_SAMPLE_INTERVAL = 100;
+const LOCAL_AUDIO_KEY = 'local';
+const STATS_INTERVAL = 2000;
+const ICE_SETTLE_DELAY = 2000; // Brief blips often heal on their own
+const ICE_RESTART_TIMEOUT = 5000;
+const RECONNECT_GRACE_PERIOD = 20000; // How long a dropped participant keeps their tile
+const RESUME_WINDOW = 5 * 60 * 1000; // How long after dropping a participant can rejoin without approval
+const RESUME_STORAGE_PREFIX = 'meeting_resume_';
+const TYPING_THROTTLE = 3000; // Keystrokes announce "typing" at most this often
+const TYPING_TIMEOUT = 6000; // An indicator nobody refreshed goes away after this
+const FILE_PROGRESS_STEP = 0.02; // Re-render file progress every 2% rather than on every chunk
+const FILE_STALL_TIMEOUT = 15000; // A download that receives nothing for this long has failed
+
+// A participant's admission, kept by the host so a reloaded page can claim it back
+interface ResumeSession {
+  peerId: string;
+  name: string;
+  approvedAt: number;
+  leftAt: number | null;
+}
+
+// Messages the host fans out from one participant to everyone else
+type RelayedMessage = Extract<MeetingMessage, {
+  type: 'status-update' | 'hand' | 'reaction' | 'video-preference' | 'recording' | 'dm-key' | 'file-offer'
+    | 'chat-edit' | 'chat-delete' | 'chat-reaction' | 'typing'
+}>;
+
+interface Download {
+  assembler: ChunkAssembler;
+  stallTimer: NodeJS.Timeout | null;
+}
+
+interface Recovery {
+  attempt: number;
+  retryTimer: NodeJS.Timeout | null;
+  graceTimer: NodeJS.Timeout;
+}
 
 const ICE_SERVERS = [
   { urls: "stun:stun.l.google.com:19302" },
   { urls: "stun:global.stun.twilio.com:3478" }
 ];
 
-type Message =
-  | { type: 'join-request'; name: string }
-  | { type: 'join-accepted' }
-  | { type: 'join-rejected' }
-  | { type: 'active-peers'; peers: { id: string; name: string }[] }
-  | { type: 'peer-left'; peerId: string }
-  | { type: 'chat-message'; id: string; senderId?: string; senderName: string; text: string; timestamp: number }
-  | { type: 'status-update'; hasVideo: boolean; hasAudio: boolean; isScreenSharing: boolean };
+interface CallMetadata {
+  name?: string;
+  kind?: 'screen' | 'relay';
+  screenStream?: boolean; // The caller accepts screens on a separate call
+  sourceId?: string; // Relay calls: whose media the host is forwarding
+  screen?: boolean; // Relay calls: the source's shared screen rather than its camera
+}
+
+interface ConnectionMetadata {
+  hostTakeover?: boolean; // Opened by the participant taking over from a host that dropped
+  name?: string;
+}
+
+function isScreenCall(call: MediaConnection) {
+  return (call.metadata as CallMetadata | undefined)?.kind === 'screen';
+}
+
+function isRelayCall(call: MediaConnection) {
+  return (call.metadata as CallMetadata | undefined)?.kind === 'relay';
+}
+
+function acceptsScreenCalls(call: MediaConnection) {
+  return !!(call.metadata as CallMetadata | undefined)?.screenStream;
+}
+
+const screenEncodingId = (peerId: string) => `screen:${peerId}`;
+
+// What the host stops relaying from participants while chat is off
+const CHAT_MESSAGE_TYPES: MeetingMessage['type'][] = ['chat-message', 'dm', 'file-offer', 'chat-edit', 'chat-delete', 'chat-reaction', 'typing'];
+const screenTileId = (peerId: string) => `${peerId}:screen`;
+const relayKey = (receiverId: string, relayId: string) => `${receiverId}|${relayId}`;
+
+// Everything the UI renders. Published as frozen snapshots: a new object whenever something
+// in it changed, sharing every untouched participant, message and list with the last one
+export interface MeetingState {
+  connectionState: ConnectionState;
+  participants: Participant[];
+  waitingPeers: { peerId: string; name: string; conn: DataConnection; passcode?: 'pending' | 'verified' }[];
+  messages: ChatMessage[];
+  error: string | null;
+  joinRejection: 'host' | 'passcode' | 'full' | null; // Why our join request was turned down
+  isAudioMuted: boolean;
+  isVideoMuted: boolean;
+  isScreenSharing: boolean;
+  lastModeration: { action: ModerationAction; timestamp: number } | null;
+  isHandRaised: boolean;
+  reactions: Reaction[];
+  activeSpeakerId: string | null;
+  audioLevels: Record<string, number>;
+  devices: MeetingDevices;
+  selectedDevices: MediaDeviceSelection;
+  callStats: Record<string, CallStats>;
+  isLowBandwidth: boolean;
+  isRecording: boolean;
+  recordingPeers: string[]; // Others who announced they are recording
+  shareChatHistory: boolean; // Host setting: send the chat backlog to people we admit
+  sharedFiles: Record<string, SharedFile>;
+  typingPeers: string[];
+  roomSettings: RoomSettings;
+  audioProcessing: AudioProcessingSettings;
+  isPushToTalk: boolean; // The mic only opens while the push-to-talk key is held
+  topology: MeetingTopology;
+  signalingError: SignalingErrorKind | null; // Why the signaling server cannot be reached, if it cannot
+  localStream: MediaStream | null; // Mirrors of our own streams, so swapping one is a change too
+  screenStream: MediaStream | null;
+}
+
+// Discrete happenings, for toasts, sounds, logs and embeds that should not diff state themselves.
+// Payloads carry snapshot objects, and the state already reflects the event when it fires.
+export interface MeetingEvents {
+  'participant-joined': { participant: Participant };
+  'participant-left': { participant: Participant };
+  'join-requested': { peerId: string; name: string };
+  'chat-received': { message: ChatMessage };
+  'media-changed': { peerId: string | null; isLocal: boolean; hasAudio: boolean; hasVideo: boolean; isScreenSharing: boolean };
+  'connection-state-changed': { state: ConnectionState; previous: ConnectionState };
+  'error': { message: string; signaling: SignalingErrorKind | null };
+}
 
 class MeetingManager {
   private static instance: MeetingManager;
@@ -23,6 +163,9 @@ class MeetingManager {
   
   private localStream: MediaStream | null = null;
   private screenStream: MediaStream | null = null;
+  // The raw mic feeds the processing chain; localStream carries the chain's output
+  private micTrack: MediaStreamTrack | null = null;
+  private audioProcessor: AudioProcessor | null = null;
   private _isToggling: boolean = false;
   
   // FIX: Generation ID to handle async race conditions
@@ -30,42 +173,148 @@ class MeetingManager {
 
   private connections: Map<string, DataConnection> = new Map();
   private calls: Map<string, MediaConnection> = new Map();
+  // A shared screen travels on its own call, beside the camera call, in each direction
+  private outgoingScreenCalls: Map<string, MediaConnection> = new Map();
+  private incomingScreenCalls: Map<string, MediaConnection> = new Map();
+  private screenReceivers: Set<string> = new Set(); // Mesh peers known to accept a screen call
+  // Star topology: as host, the calls forwarding one participant's media to another (keyed by relayKey);
+  // as a participant, the forwarded calls we receive, keyed by source id or screen tile id
+  private relayCalls: Map<string, { call: MediaConnection; stream: MediaStream; receiverId: string; screen: boolean }> = new Map();
+  private relayedCalls: Map<string, MediaConnection> = new Map();
+  private relayedPeers: Set<string> = new Set(); // Peers whose media goes through the host rather than a call of our own
   private trackMonitoringIntervals: Map<string, NodeJS.Timeout> = new Map(); 
-
-  public state: {
-    connectionState: ConnectionState;
-    participants: Participant[];
-    waitingPeers: { peerId: string; name: string; conn: DataConnection }[];
-    messages: ChatMessage[];
-    error: string | null;
-    isAudioMuted: boolean;
-    isVideoMuted: boolean;
-    isScreenSharing: boolean;
-  } = {
+  private statsCounters: Map<string, StatsCounters> = new Map();
+  private appliedEncodings: Map<string, string> = new Map();
+  private videoPausedBy: Set<string> = new Set(); // Peers in low bandwidth mode who asked for no video from us
+  private recoveries: Map<string, Recovery> = new Map();
+  private recorder: MeetingRecorder | null = null;
+  private recordingLayout: RecordingLayout = 'grid';
+  private isLeaving: boolean = false;
+  private signalingRetry: { attempt: number; timer: NodeJS.Timeout | null } = { attempt: 0, timer: null };
+  private peerProtocols: Map<string, PeerProtocol> = new Map();
+
+  private audioMonitor = new AudioLevelMonitor();
+  private speakerDetector = new ActiveSpeakerDetector();
+  private audioLevelInterval: NodeJS.Timeout | null = null;
+  private isWatchingDevices: boolean = false;
+
+  // Host migration: who we answer to, and what the host told us about who comes next
+  private roomId: string | null = null;
+  private hostPeerId: string | null = null;
+  private localName: string | null = null;
+  private successionOrder: string[] = [];
+  private successionWaiting: { id: string; name: string }[] = [];
+  private successionToken: string | null = null; // As host: the one we gave our successor. Otherwise: ours, if we are next
+  private successorPeerId: string | null = null; // As host: who the room currently lets take over from us
+  private hostToken: string | null = null; // As host: proves to the room that we may name successors
+  private takeoverOffers: Map<string, DataConnection> = new Map(); // Lobby only: would-be hosts that reached us
+  private bannedPeers: Set<string> = new Set();
+  private bannedSessions: Set<string> = new Set(); // Resume tokens of the banned, which their tab keeps across a reload
+
+  // Session resume: tokens we issued as host, and the one our host issued us
+  private resumeSessions: Map<string, ResumeSession> = new Map();
+  private resumeToken: string | null = null;
+
+  // Participant passcode: the derived key and policy we check joiners against as host,
+  // the nonces we are waiting on, and the code we typed in when joining
+  private passcodeKey: string | null = null;
+  private autoAdmit: boolean = false;
+  private passcodeChallenges: Map<string, string> = new Map();
+  private awaitingEntrySettings: boolean = false; // Joined, but the host has not yet said how we enter
+  private joinPasscode: string | null = null;
+
+  // Direct messages: our key pair, everyone's public keys, and the AES keys derived from them
+  private dmKeyPair: CryptoKeyPair | null = null;
+  private dmPublicKey: string | null = null;
+  private peerDmKeys: Map<string, string> = new Map();
+  private sharedDmKeys: Map<string, Promise<CryptoKey>> = new Map();
+
+  // File sharing: files we offered, uploads under way ("fileId:recipientId") and our downloads
+  private outgoingFiles: Map<string, File> = new Map();
+  private activeUploads: Set<string> = new Set();
+  private downloads: Map<string, Download> = new Map();
+
+  // Typing indicators: when we last announced ourselves, and when each typist's indicator lapses
+  private lastTypingSentAt: number = 0;
+  private typingTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  // Attendance: when we entered the meeting, and who was present when
+  private meetingStartedAt: number | null = null;
+  private attendance: Map<string, AttendanceRecord> = new Map();
+
+  // The working copy every handler mutates; the UI only ever sees snapshots of it
+  private draft: MeetingState = {
     connectionState: 'disconnected',
     participants: [],
     waitingPeers: [],
     messages: [],
     error: null,
+    joinRejection: null,
     isAudioMuted: false,
     isVideoMuted: false,
-    isScreenSharing: false
+    isScreenSharing: false,
+    lastModeration: null,
+    isHandRaised: false,
+    reactions: [],
+    activeSpeakerId: null,
+    audioLevels: {},
+    devices: { audioInput: [], videoInput: [], audioOutput: [] },
+    selectedDevices: { audioInputId: null, videoInputId: null, audioOutputId: null },
+    callStats: {},
+    isLowBandwidth: false,
+    isRecording: false,
+    recordingPeers: [],
+    shareChatHistory: true,
+    sharedFiles: {},
+    typingPeers: [],
+    roomSettings: DEFAULT_ROOM_SETTINGS,
+    audioProcessing: DEFAULT_AUDIO_PROCESSING,
+    isPushToTalk: false,
+    topology: 'mesh',
+    signalingError: null,
+    localStream: null,
+    screenStream: null
   };
 
-  private listeners: (() => void)[] = [];
+  private store = new SnapshotStore<MeetingState>(this.draft);
+  private events = new TypedEmitter<MeetingEvents>();
 
   static getInstance() {
     if (!this.instance) this.instance = new MeetingManager();
     return this.instance;
   }
 
+  // The app shares one instance; tests build several on a fake network
+  constructor(private peers: PeerFactory = browserPeerFactory, private media: MediaFactory = browserMediaFactory) {}
+
+  get state(): MeetingState {
+    return this.store.getSnapshot();
+  }
+
   subscribe(listener: () => void) {
-    this.listeners.push(listener);
-    return () => { this.listeners = this.listeners.filter(l => l !== listener); };
+    return this.store.subscribe(listener);
+  }
+
+  on<K extends keyof MeetingEvents>(event: K, listener: (payload: MeetingEvents[K]) => void) {
+    return this.events.on(event, listener);
+  }
+
+  once<K extends keyof MeetingEvents>(event: K, listener: (payload: MeetingEvents[K]) => void) {
+    return this.events.once(event, listener);
+  }
+
+  off<K extends keyof MeetingEvents>(event: K, listener: (payload: MeetingEvents[K]) => void) {
+    this.events.off(event, listener);
   }
 
-  private notify() {
-    this.listeners.forEach(l => l());
+  // changed: on hot paths, the only slices touched, so the rest of the state is not walked
+  private notify(changed?: (keyof MeetingState)[]) {
+    this.draft.localStream = this.localStream;
+    this.draft.screenStream = this.screenStream;
+    this.syncAttendance();
+    const previous = this.store.getSnapshot();
+    this.store.publish(this.draft, changed && [...changed, 'localStream', 'screenStream']);
+    this.emitChanges(previous, this.store.getSnapshot());
   }
 
   // --- MEDIA MANAGEMENT ---
@@ -86,10 +335,21 @@ class MeetingManager {
     // 1. Stop any existing streams immediately
     this.stopStream(this.localStream);
     this.localStream = null;
+    this.releaseMic();
 
     try {
       // 2. Request new stream
-      const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
+      let stream: MediaStream;
+      try {
+        stream = await this.media.getUserMedia(this.getMediaConstraints({ audio: true, video: true }));
+      } catch (e) {
+        const { audioInputId, videoInputId } = this.draft.selectedDevices;
+        if (!audioInputId && !videoInputId) throw e;
+        // The chosen device is gone; fall back to the system defaults
+        console.warn("MeetingManager: Selected device unavailable, using defaults", e);
+        this.draft.selectedDevices = { ...this.draft.selectedDevices, audioInputId: null, videoInputId: null };
+        stream = await this.media.getUserMedia({ video: true, audio: audioConstraints(this.draft.audioProcessing, null) });
+      }
       
       // 3. Check if we were cleaned up/reset while awaiting
       if (this._mediaGenerationId !== myGenerationId) {
@@ -98,17 +358,25 @@ class MeetingManager {
         return;
       }
 
-      this.localStream = stream;
+      const mic = stream.getAudioTracks()[0];
+      this.localStream = mic ? this.media.createStream([this.processMic(mic), ...stream.getVideoTracks()]) : stream;
+      // With push-to-talk on we enter muted
+      if (mic && this.draft.isPushToTalk) this.localStream.getAudioTracks()[0].enabled = false;
       this.attachLocalTrackListeners();
+      this.startAudioMonitoring();
+      this.watchDeviceChanges();
       
       // Reset mute states
-      this.state.isAudioMuted = false;
-      this.state.isVideoMuted = false;
+      this.draft.isAudioMuted = !!mic && this.draft.isPushToTalk;
+      this.draft.isVideoMuted = false;
       this.notify();
+
+      // Labels are only exposed once permission has been granted
+      await this.refreshDevices();
     } catch (e) {
       if (this._mediaGenerationId === myGenerationId) {
         console.error("Media error", e);
-        this.state.error = "Could not access camera/microphone";
+        this.draft.error = "Could not access camera/microphone";
         this.notify();
       }
     }
@@ -120,29 +388,423 @@ class MeetingManager {
     this.localStream.getVideoTracks().forEach(track => {
       track.onended = () => {
         console.log("Video track ended (Hardware/System)");
-        this.state.isVideoMuted = true;
+        this.draft.isVideoMuted = true;
         this.broadcastStatusUpdate();
         this.notify();
       };
     });
 
-    this.localStream.getAudioTracks().forEach(track => {
-      track.onended = () => {
+    // Unplugging ends the raw mic; the processed track we send never ends on its own
+    const mic = this.micTrack ?? this.localStream.getAudioTracks()[0];
+    if (mic) {
+      mic.onended = () => {
         console.log("Audio track ended (Hardware/System)");
-        this.state.isAudioMuted = true;
+        this.draft.isAudioMuted = true;
         this.broadcastStatusUpdate();
         this.notify();
       };
+    }
+  }
+
+  // --- DEVICES ---
+
+  private getMediaConstraints(kinds: { audio?: boolean; video?: boolean }): MediaStreamConstraints {
+    const { audioInputId, videoInputId } = this.draft.selectedDevices;
+    return {
+      audio: kinds.audio ? audioConstraints(this.draft.audioProcessing, audioInputId) : false,
+      video: kinds.video ? (videoInputId ? { deviceId: { exact: videoInputId } } : true) : false
+    };
+  }
+
+  async refreshDevices() {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      const ofKind = (kind: MediaDeviceKind): MediaDeviceOption[] => all
+        .filter(d => d.kind === kind && d.deviceId)
+        .map(d => ({ deviceId: d.deviceId, kind: d.kind, label: d.label }));
+
+      this.draft.devices = {
+        audioInput: ofKind('audioinput'),
+        videoInput: ofKind('videoinput'),
+        audioOutput: ofKind('audiooutput')
+      };
+      this.notify();
+    } catch (e) {
+      console.error("Failed to enumerate devices", e);
+    }
+  }
+
+  private watchDeviceChanges() {
+    if (this.isWatchingDevices || typeof navigator === 'undefined' || !navigator.mediaDevices?.addEventListener) return;
+    navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+    this.isWatchingDevices = true;
+  }
+
+  private unwatchDeviceChanges() {
+    if (!this.isWatchingDevices) return;
+    navigator.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+    this.isWatchingDevices = false;
+  }
+
+  private handleDeviceChange = async () => {
+    await this.refreshDevices();
+    if (!this.localStream) return;
+
+    const { audioInput, videoInput, audioOutput } = this.draft.devices;
+    const isGone = (track: MediaStreamTrack | undefined, options: MediaDeviceOption[]) => {
+      const deviceId = track?.getSettings().deviceId;
+      return !!deviceId && options.length > 0 && !options.some(d => d.deviceId === deviceId);
+    };
+
+    // Whatever we were using got unplugged: move to the first device the system still has
+    if (isGone(this.micTrack ?? this.localStream.getAudioTracks()[0], audioInput)) {
+      await this.setAudioInput(audioInput[0].deviceId);
+    }
+    if (isGone(this.localStream.getVideoTracks()[0], videoInput)) {
+      await this.setVideoInput(videoInput[0].deviceId);
+    }
+
+    const { audioOutputId } = this.draft.selectedDevices;
+    if (audioOutputId && !audioOutput.some(d => d.deviceId === audioOutputId)) {
+      this.setAudioOutput(null);
+    }
+  };
+
+  async setAudioInput(deviceId: string) {
+    this.draft.selectedDevices = { ...this.draft.selectedDevices, audioInputId: deviceId };
+    this.notify();
+    if (!this.localStream) return;
+
+    const myGenerationId = this._mediaGenerationId;
+    try {
+      const stream = await this.media.getUserMedia(this.getMediaConstraints({ audio: true }));
+      if (this._mediaGenerationId !== myGenerationId || !this.localStream) {
+        this.stopStream(stream);
+        return;
+      }
+
+      const oldTrack = this.localStream.getAudioTracks()[0];
+      const oldMic = this.micTrack ?? oldTrack;
+      // An unplugged mic left us muted; a fresh one starts live (unless push-to-talk holds it)
+      if (oldMic?.readyState !== 'live' && !this.draft.isPushToTalk) this.draft.isAudioMuted = false;
+
+      // Behind the processing chain only the source changes; the track on the calls stays
+      const newTrack = this.processMic(stream.getAudioTracks()[0]);
+      newTrack.enabled = !this.draft.isAudioMuted;
+      this.localStream = this.media.createStream([newTrack, ...this.localStream.getVideoTracks()]);
+      if (newTrack !== oldTrack) {
+        await this.replaceTrackOnCalls('audio', newTrack);
+        oldTrack?.stop();
+      }
+      if (oldMic && oldMic !== this.micTrack) oldMic.stop();
+
+      this.attachLocalTrackListeners();
+      this.updateLocalParticipantState();
+      this.broadcastStatusUpdate();
+      this.notify();
+    } catch (e) {
+      console.error("Failed to switch microphone", e);
+      this.draft.error = "Could not switch microphone";
+      this.notify();
+    }
+  }
+
+  async setVideoInput(deviceId: string) {
+    this.draft.selectedDevices = { ...this.draft.selectedDevices, videoInputId: deviceId };
+    this.notify();
+    if (!this.localStream) return;
+
+    const myGenerationId = this._mediaGenerationId;
+    try {
+      const stream = await this.media.getUserMedia(this.getMediaConstraints({ video: true }));
+      if (this._mediaGenerationId !== myGenerationId || !this.localStream) {
+        this.stopStream(stream);
+        return;
+      }
+
+      const oldTracks = this.localStream.getVideoTracks();
+      if (!oldTracks.some(t => t.readyState === 'live')) this.draft.isVideoMuted = false;
+
+      const newTrack = stream.getVideoTracks()[0];
+      newTrack.enabled = !this.draft.isVideoMuted;
+
+      await this.replaceVideoTrack(newTrack);
+      oldTracks.forEach(t => t.stop());
+
+      this.attachLocalTrackListeners();
+      this.updateLocalParticipantState();
+      this.broadcastStatusUpdate();
+      this.notify();
+    } catch (e) {
+      console.error("Failed to switch camera", e);
+      this.draft.error = "Could not switch camera";
+      this.notify();
+    }
+  }
+
+  // Remote audio is played by each tile's media element, which picks this up via setSinkId
+  setAudioOutput(deviceId: string | null) {
+    this.draft.selectedDevices = { ...this.draft.selectedDevices, audioOutputId: deviceId };
+    this.notify();
+  }
+
+  supportsAudioOutputSelection() {
+    return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+  }
+
+  // --- AUDIO LEVELS ---
+
+  private startAudioMonitoring() {
+    if (this.audioLevelInterval || typeof window === 'undefined' || !window.AudioContext) return;
+    this.audioLevelInterval = setInterval(() => this.sampleAudioLevels(), AUDIO_SAMPLE_INTERVAL);
+  }
+
+  private stopAudioMonitoring() {
+    if (this.audioLevelInterval) clearInterval(this.audioLevelInterval);
+    this.audioLevelInterval = null;
+    this.audioMonitor.dispose();
+    this.speakerDetector.reset();
+  }
+
+  private sampleAudioLevels() {
+    // The local stream object is swapped on video toggles; tracking is a no-op for the same stream
+    if (this.localStream) this.audioMonitor.track(LOCAL_AUDIO_KEY, this.localStream);
+
+    const myId = this.getPeerId() || LOCAL_AUDIO_KEY;
+    const levels: Record<string, number> = {};
+    Object.entries(this.audioMonitor.sample()).forEach(([id, level]) => {
+      // Quantise so background noise doesn't re-render every tile
+      levels[id === LOCAL_AUDIO_KEY ? myId : id] = Math.round(level * 20) / 20;
+    });
+    if (this.draft.isAudioMuted) levels[myId] = 0;
+
+    const activeSpeakerId = this.speakerDetector.update(levels);
+    const previous = this.draft.audioLevels;
+    const levelsChanged = Object.keys(levels).length !== Object.keys(previous).length
+      || Object.keys(levels).some(id => levels[id] !== previous[id]);
+
+    if (levelsChanged || activeSpeakerId !== this.draft.activeSpeakerId) {
+      this.draft.audioLevels = levels;
+      this.draft.activeSpeakerId = activeSpeakerId;
+      this.notify(['audioLevels', 'activeSpeakerId']);
+    }
+  }
+
+  isSpeaking(peerId: string | undefined) {
+    if (!peerId) return false;
+    return (this.draft.audioLevels[peerId] ?? 0) >= SPEAKING_THRESHOLD;
+  }
+
+  // --- CALL STATISTICS ---
+
+  private startStatsMonitoring(peerId: string) {
+    if (this.trackMonitoringIntervals.has(peerId)) return;
+    this.trackMonitoringIntervals.set(peerId, setInterval(() => this.sampleStats(peerId), STATS_INTERVAL));
+  }
+
+  private stopStatsMonitoring(peerId: string) {
+    const interval = this.trackMonitoringIntervals.get(peerId);
+    if (interval) clearInterval(interval);
+    this.trackMonitoringIntervals.delete(peerId);
+    this.statsCounters.delete(peerId);
+    if (peerId in this.draft.callStats) {
+      const { [peerId]: _removed, ...rest } = this.draft.callStats;
+      this.draft.callStats = rest;
+    }
+  }
+
+  private async sampleStats(peerId: string) {
+    const pc = this.calls.get(peerId)?.peerConnection;
+    if (!pc || pc.connectionState === 'closed') return;
+    try {
+      const { stats, counters } = await sampleCallStats(pc, this.statsCounters.get(peerId) ?? null);
+      // The call may have ended while getStats() was pending
+      if (!this.trackMonitoringIntervals.has(peerId)) return;
+      this.statsCounters.set(peerId, counters);
+      this.draft.callStats = { ...this.draft.callStats, [peerId]: stats };
+      this.applySenderEncoding(peerId);
+      if (this.outgoingScreenCalls.has(peerId)) this.applySenderEncoding(peerId, true);
+      this.applyRelayEncodings(peerId);
+      this.notify(['callStats']);
+    } catch (e) {
+      console.warn(`Failed to read stats for ${peerId}`, e);
+    }
+  }
+
+  getCallStats(peerId: string): CallStats | null {
+    return this.draft.callStats[peerId] ?? null;
+  }
+
+  getConnectionQuality(peerId: string): ConnectionQuality {
+    return this.draft.callStats[peerId]?.quality ?? 'unknown';
+  }
+
+  // --- BANDWIDTH ---
+
+  setLowBandwidth(enabled: boolean) {
+    if (this.draft.isLowBandwidth === enabled) return;
+    this.draft.isLowBandwidth = enabled;
+    this.broadcastVideoPreference();
+    this.updateSenderEncodings();
+    this.notify();
+  }
+
+  private broadcastVideoPreference() {
+    this.broadcast({ type: 'video-preference', receiveVideo: !this.draft.isLowBandwidth });
+  }
+
+  private updateSenderEncodings() {
+    this.calls.forEach((_, peerId) => this.applySenderEncoding(peerId));
+    this.outgoingScreenCalls.forEach((_, peerId) => this.applySenderEncoding(peerId, true));
+    this.relayedPeers.forEach(peerId => this.applyRelayEncodings(peerId));
+  }
+
+  private applySenderEncoding(peerId: string, screen = false) {
+    const pc = (screen ? this.outgoingScreenCalls : this.calls).get(peerId)?.peerConnection;
+    this.setSenderEncoding(pc, screen ? screenEncodingId(peerId) : peerId, computeSenderEncoding({
+      // Forwarded media shares the host's uplink with its own camera
+      remoteCount: this.calls.size + this.relayCalls.size,
+      quality: this.getConnectionQuality(peerId),
+      isScreenSharing: screen,
+      isPresenting: this.draft.isScreenSharing,
+      lowBandwidth: this.draft.isLowBandwidth,
+      receiverWantsVideo: !this.videoPausedBy.has(peerId)
+    }));
+  }
+
+  // As host in a star: what we forward to a receiver is sent by us, so it follows the same
+  // budget, and a receiver in low bandwidth mode gets none of it
+  private applyRelayEncodings(receiverId: string) {
+    this.relayCalls.forEach((relay, key) => {
+      if (relay.receiverId !== receiverId) return;
+      this.setSenderEncoding(relay.call.peerConnection, key, computeSenderEncoding({
+        remoteCount: this.calls.size + this.relayCalls.size,
+        quality: this.getConnectionQuality(receiverId),
+        isScreenSharing: relay.screen,
+        isPresenting: false,
+        lowBandwidth: this.draft.isLowBandwidth,
+        receiverWantsVideo: !this.videoPausedBy.has(receiverId)
+      }));
     });
   }
 
+  private async setSenderEncoding(pc: RTCPeerConnection | undefined, encodingId: string, encoding: SenderEncoding) {
+    if (!pc || pc.connectionState === 'closed') return;
+
+    const sender = pc.getSenders().find(s => s.track?.kind === 'video')
+                   || pc.getTransceivers().find(t => t.receiver.track?.kind === 'video')?.sender;
+    if (!sender) return;
+
+    const key = JSON.stringify(encoding);
+    if (this.appliedEncodings.get(encodingId) === key) return;
+
+    const params = sender.getParameters();
+    // Encodings are empty until negotiation finishes; the next stats sample retries
+    if (!params.encodings || params.encodings.length === 0) return;
+    params.encodings = params.encodings.map(e => ({ ...e, ...encoding }));
+    try {
+      await sender.setParameters(params);
+      this.appliedEncodings.set(encodingId, key);
+    } catch (e) {
+      console.warn(`Failed to set encoding for ${encodingId}`, e);
+    }
+  }
+
+  // --- RECORDING ---
+
+  canRecord() {
+    return MeetingRecorder.isSupported();
+  }
+
+  startRecording(layout: RecordingLayout = 'grid') {
+    if (this.recorder || !MeetingRecorder.isSupported()) return;
+    this.recordingLayout = layout;
+    const recorder = new MeetingRecorder();
+    try {
+      recorder.start(() => this.getRecordingScene());
+    } catch (e) {
+      console.error("Failed to start recording", e);
+      recorder.dispose();
+      return;
+    }
+    this.recorder = recorder;
+    this.draft.isRecording = true;
+    // Everyone hears about it before the first frame is kept
+    this.broadcastRecordingStatus();
+    this.addSystemMessage(`You started recording`);
+    this.notify();
+  }
+
+  setRecordingLayout(layout: RecordingLayout) {
+    this.recordingLayout = layout;
+  }
+
+  // Resolves with the WebM for the caller to save
+  async stopRecording(): Promise<Blob | null> {
+    const recorder = this.recorder;
+    if (!recorder) return null;
+    this.recorder = null;
+    this.draft.isRecording = false;
+    this.broadcastRecordingStatus();
+    this.addSystemMessage(`You stopped recording`);
+    this.notify();
+    return recorder.stop();
+  }
+
+  private broadcastRecordingStatus() {
+    this.broadcast({ type: 'recording', active: this.draft.isRecording });
+  }
+
+  private applyRecordingStatus(peerId: string, active: boolean) {
+    const wasRecording = this.draft.recordingPeers.includes(peerId);
+    if (wasRecording === active) return;
+    this.draft.recordingPeers = active
+      ? [...this.draft.recordingPeers, peerId]
+      : this.draft.recordingPeers.filter(id => id !== peerId);
+    const name = this.draft.participants.find(p => p.id === peerId)?.name || "Someone";
+    this.addSystemMessage(`${name} ${active ? 'started' : 'stopped'} recording`);
+  }
+
+  private getRecordingScene(): RecordingScene {
+    const myId = this.getPeerId() || LOCAL_AUDIO_KEY;
+    const local: RecordingTile = {
+      id: myId,
+      name: this.getMyName(),
+      videoStream: this.localStream,
+      audioStream: this.localStream,
+      hasVideo: !this.draft.isVideoMuted,
+      isScreenSharing: false
+    };
+    const remotes: RecordingTile[] = this.draft.participants
+      .filter(p => p.id !== myId)
+      .map(p => ({
+        id: p.id, name: p.name, videoStream: p.stream || null, audioStream: p.stream || null,
+        hasVideo: p.hasVideo, isScreenSharing: false
+      }));
+    // Each shared screen is a tile of its own, carrying the screen's audio
+    const screens: RecordingTile[] = [
+      { id: myId, name: this.getMyName(), stream: this.screenStream },
+      ...this.draft.participants.filter(p => p.id !== myId).map(p => ({ id: p.id, name: p.name, stream: p.screenStream || null }))
+    ]
+      .filter(screen => screen.stream)
+      .map(screen => ({
+        id: screenTileId(screen.id), name: screen.name, videoStream: screen.stream, audioStream: screen.stream,
+        hasVideo: true, isScreenSharing: true
+      }));
+    const tiles = [...screens, local, ...remotes];
+    // A shared screen beats whoever is talking
+    const featuredId = tiles.find(tile => tile.isScreenSharing)?.id ?? this.draft.activeSpeakerId;
+    return { layout: this.recordingLayout, featuredId, tiles };
+  }
+
   toggleAudio() {
     if (!this.localStream) return;
     const audioTrack = this.localStream.getAudioTracks()[0];
     
     if (audioTrack) {
       audioTrack.enabled = !audioTrack.enabled;
-      this.state.isAudioMuted = !audioTrack.enabled;
+      this.draft.isAudioMuted = !audioTrack.enabled;
       
       this.updateLocalParticipantState();
       this.broadcastStatusUpdate();
@@ -150,17 +812,64 @@ class MeetingManager {
     }
   }
 
+  // --- AUDIO PROCESSING ---
+
+  // Sends the mic through the processing chain; where Web Audio is missing the raw track goes out
+  private processMic(track: MediaStreamTrack): MediaStreamTrack {
+    this.micTrack = track;
+    if (!isAudioProcessingSupported()) return track;
+    try {
+      this.audioProcessor ??= new AudioProcessor(this.draft.audioProcessing);
+      return this.audioProcessor.connect(track);
+    } catch (e) {
+      console.warn("MeetingManager: Audio processing unavailable, sending the raw mic", e);
+      return track;
+    }
+  }
+
+  private releaseMic() {
+    this.micTrack?.stop();
+    this.micTrack = null;
+    this.audioProcessor?.dispose();
+    this.audioProcessor = null;
+  }
+
+  async setAudioProcessing(settings: Partial<AudioProcessingSettings>) {
+    const previous = this.draft.audioProcessing;
+    this.draft.audioProcessing = { ...previous, ...settings };
+    this.audioProcessor?.update(this.draft.audioProcessing);
+    this.notify();
+
+    const { noiseSuppression, echoCancellation } = this.draft.audioProcessing;
+    if (!this.micTrack || (noiseSuppression === previous.noiseSuppression && echoCancellation === previous.echoCancellation)) return;
+    try {
+      await this.micTrack.applyConstraints({ ...this.micTrack.getConstraints(), noiseSuppression, echoCancellation });
+    } catch (e) {
+      console.warn("MeetingManager: Could not apply mic constraints", e);
+    }
+  }
+
+  // Turning push-to-talk on mutes the mic until the key is held; turning it off leaves the mic as it is
+  setPushToTalk(enabled: boolean) {
+    this.draft.isPushToTalk = enabled;
+    if (enabled) this.setAudioMuted(true);
+    this.notify();
+  }
+
+  pushToTalk(talking: boolean) {
+    if (this.draft.isPushToTalk) this.setAudioMuted(!talking);
+  }
+
+  private setAudioMuted(muted: boolean) {
+    if (this.draft.isAudioMuted !== muted) this.toggleAudio();
+  }
+
   async toggleVideo() {
     if (this._isToggling) return;
     this._isToggling = true;
     const myGenerationId = this._mediaGenerationId;
 
     try {
-      if (this.state.isScreenSharing) {
-        await this.stopScreenShare();
-        return;
-      }
-
       if (!this.localStream) {
         await this.initializeMedia();
         return;
@@ -171,17 +880,17 @@ class MeetingManager {
       if (videoTrack) {
         // Soft toggle
         videoTrack.enabled = !videoTrack.enabled;
-        this.state.isVideoMuted = !videoTrack.enabled;
+        this.draft.isVideoMuted = !videoTrack.enabled;
         
         // Force React update by creating new stream reference with same tracks
-        this.localStream = new MediaStream(this.localStream.getTracks());
+        this.localStream = this.media.createStream(this.localStream.getTracks());
         
         this.updateLocalParticipantState();
         this.broadcastStatusUpdate();
         this.notify();
       } else {
         // Fallback: acquire video track
-        const newStream = await navigator.mediaDevices.getUserMedia({ video: true });
+        const newStream = await this.media.getUserMedia(this.getMediaConstraints({ video: true }));
         
         // Race condition check
         if (this._mediaGenerationId !== myGenerationId) {
@@ -193,7 +902,7 @@ class MeetingManager {
         this.localStream.addTrack(newTrack);
         await this.replaceVideoTrack(newTrack);
         
-        this.state.isVideoMuted = false;
+        this.draft.isVideoMuted = false;
         this.updateLocalParticipantState();
         this.broadcastStatusUpdate();
         this.notify();
@@ -211,9 +920,9 @@ class MeetingManager {
     const myGenerationId = this._mediaGenerationId;
 
     try {
-      if (this.state.isScreenSharing) return;
+      if (this.draft.isScreenSharing || !this.canShareScreen()) return;
 
-      this.screenStream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+      this.screenStream = await this.media.getDisplayMedia({ video: true, audio: true });
       
       // Race check
       if (this._mediaGenerationId !== myGenerationId) {
@@ -222,18 +931,15 @@ class MeetingManager {
           return;
       }
 
-      const screenVideoTrack = this.screenStream.getVideoTracks()[0];
-
-      screenVideoTrack.onended = () => {
+      this.screenStream.getVideoTracks()[0].onended = () => {
         this.stopScreenShare();
       };
 
-      await this.replaceVideoTrack(screenVideoTrack);
-        
-      this.state.isScreenSharing = true;
-      this.state.isVideoMuted = false; 
-      
+      this.draft.isScreenSharing = true;
+      this.calls.forEach((_, peerId) => this.shareScreenWith(peerId));
+
       this.updateLocalParticipantState();
+      this.updateSenderEncodings();
       this.broadcastStatusUpdate();
       this.notify();
       
@@ -245,51 +951,101 @@ class MeetingManager {
   }
 
   async stopScreenShare() {
-    if (!this.state.isScreenSharing) return;
+    if (!this.draft.isScreenSharing) return;
 
+    this.outgoingScreenCalls.forEach(call => call.close());
+    this.outgoingScreenCalls.clear();
     this.stopStream(this.screenStream);
     this.screenStream = null;
 
-    try {
-        if (this.localStream) {
-            const camTrack = this.localStream.getVideoTracks()[0];
-            if (camTrack) {
-                camTrack.enabled = true;
-                await this.replaceVideoTrack(camTrack);
-                this.state.isVideoMuted = false;
-            } else {
-                await this.initializeMedia();
-            }
-        }
-    } catch (e) {
-        console.error("Failed to revert to camera", e);
-    }
-
-    this.state.isScreenSharing = false;
+    this.draft.isScreenSharing = false;
     this.updateLocalParticipantState();
+    this.updateSenderEncodings();
     this.broadcastStatusUpdate();
     this.notify();
   }
 
+  private supportsScreenCalls(peerId: string) {
+    return this.screenReceivers.has(peerId) || !!this.peerProtocols.get(peerId)?.capabilities.includes('screen-stream');
+  }
+
+  // Clients from before separate screen calls would take ours for a new camera, so they only see the camera
+  private shareScreenWith(peerId: string) {
+    if (!this.peer || !this.screenStream || this.outgoingScreenCalls.has(peerId) || !this.supportsScreenCalls(peerId)) return;
+    const call = this.peer.call(peerId, this.screenStream, { metadata: { kind: 'screen', name: this.getMyName() } });
+    if (!call) return;
+    this.outgoingScreenCalls.set(peerId, call);
+    this.appliedEncodings.delete(screenEncodingId(peerId));
+
+    const forget = () => {
+      if (this.outgoingScreenCalls.get(peerId) === call) this.outgoingScreenCalls.delete(peerId);
+    };
+    call.on('close', forget);
+    call.on('error', (e) => { console.error(e); forget(); });
+  }
+
+  private receiveScreenCall(call: MediaConnection) {
+    // Only people already in the meeting may present, and only the host if the room says so
+    const presenter = this.draft.participants.find(p => p.id === call.peer);
+    if (!presenter || presenter.status === 'waiting' || (!this.draft.roomSettings.enableScreenShare && presenter.role !== 'host')) {
+      call.close();
+      return;
+    }
+    call.answer(); // Receive only
+
+    const previous = this.incomingScreenCalls.get(call.peer);
+    this.incomingScreenCalls.set(call.peer, call);
+    if (previous && previous !== call) previous.close();
+
+    call.on('stream', (screenStream) => {
+      const p = this.draft.participants.find(part => part.id === call.peer);
+      if (p && this.incomingScreenCalls.get(call.peer) === call) {
+        p.screenStream = screenStream;
+        this.syncRelays();
+        this.notify();
+      }
+    });
+    call.on('close', () => this.endIncomingScreen(call.peer, call));
+    call.on('error', (e) => { console.error(e); this.endIncomingScreen(call.peer, call); });
+  }
+
+  private endIncomingScreen(peerId: string, call?: MediaConnection) {
+    const current = this.incomingScreenCalls.get(peerId);
+    if (call && current !== call) return;
+    this.incomingScreenCalls.delete(peerId);
+    current?.close();
+
+    const p = this.draft.participants.find(part => part.id === peerId);
+    if (p?.screenStream) {
+      delete p.screenStream;
+      this.syncRelays();
+      this.notify();
+    }
+  }
+
   private async replaceVideoTrack(newTrack: MediaStreamTrack) {
     if (this.localStream) {
         const audioTracks = this.localStream.getAudioTracks();
-        this.localStream = new MediaStream([...audioTracks, newTrack]);
+        this.localStream = this.media.createStream([...audioTracks, newTrack]);
     }
 
+    await this.replaceTrackOnCalls('video', newTrack);
+  }
+
+  private async replaceTrackOnCalls(kind: 'audio' | 'video', newTrack: MediaStreamTrack) {
     const replacePromises = Array.from(this.calls.values()).map(async (call) => {
       const pc = call.peerConnection;
       if (!pc || pc.connectionState === 'closed') return;
 
-      const senders = pc.getSenders();
-      const videoSender = senders.find(s => s.track?.kind === 'video') 
-                          || senders.find(s => s.track?.kind !== 'audio');
+      // A sender whose track was nulled out still belongs to its transceiver's kind
+      const sender = pc.getSenders().find(s => s.track?.kind === kind)
+                     || pc.getTransceivers().find(t => t.receiver.track?.kind === kind)?.sender;
 
-      if (videoSender) {
+      if (sender) {
         try {
-          await videoSender.replaceTrack(newTrack);
+          await sender.replaceTrack(newTrack);
         } catch (e) {
-          console.error(`Failed to replace track for peer ${call.peer}`, e);
+          console.error(`Failed to replace ${kind} track for peer ${call.peer}`, e);
         }
       }
     });
@@ -301,21 +1057,20 @@ class MeetingManager {
 
   sendMessage(text: string) {
     const myId = this.getPeerId();
-    if (!myId) return;
+    if (!myId || !this.canChat()) return;
 
-    const localPart = this.state.participants.find(p => p.id === myId);
-    const name = localPart?.name || 'Me';
+    const name = this.getMyName();
 
-    const message: Message = {
+    const message: MeetingMessage = {
       type: 'chat-message',
-      id: Date.now().toString(),
+      id: generateSecureToken(),
       senderId: myId,
       senderName: name,
       text,
       timestamp: Date.now()
     };
 
-    this.state.messages.push({
+    this.draft.messages.push({
       id: message.id,
       senderId: myId,
       senderName: name,
@@ -323,64 +1078,1637 @@ class MeetingManager {
       timestamp: message.timestamp
     });
 
+    this.broadcast(message);
+    this.setTyping(false);
+
+    this.notify();
+  }
+
+  private sendTo(conn: DataConnection, message: MeetingMessage) {
+    if (!conn.open || !peerSupports(this.peerProtocols.get(conn.peer), message)) return;
+    conn.send(encodeMessage(message));
+  }
+
+  // Knockers hold a link too, but only people in the meeting hear what goes on in it
+  private broadcast(message: MeetingMessage, filter: (conn: DataConnection) => boolean = () => true) {
     this.connections.forEach(conn => {
-      if (conn.open) conn.send(message);
+      if (this.isMember(conn.peer) && filter(conn)) this.sendTo(conn, message);
     });
+  }
 
-    this.notify();
+  // Our host and everyone admitted; a peer still in the waiting room, or failing the passcode, is neither
+  private isMember(peerId: string) {
+    return peerId === this.hostPeerId || this.draft.participants.some(p => p.id === peerId);
+  }
+
+  // Participants have no data link to each other, so the host passes targeted messages along
+  private forward(msg: Extract<MeetingMessage, { type: 'ice-restart' | 'dm' | 'file-request' | 'file-chunk' }>, targetId: string, senderId: string) {
+    if (!this.isHost() || !this.draft.participants.some(p => p.id === senderId)) return;
+    const target = this.connections.get(targetId);
+    if (target) this.sendTo(target, { ...msg, peerId: senderId });
   }
 
-  private handleDataMessage(data: unknown, peerId: string) {
-    const msg = data as Message;
+  private handleDataMessage(msg: MeetingMessage, peerId: string) {
+    // With chat off the host neither shows nor relays what participants post
+    if (this.isHost() && !this.draft.roomSettings.enableChat && CHAT_MESSAGE_TYPES.includes(msg.type)) return;
 
     if (msg.type === 'chat-message') {
-      this.state.messages.push({
-        id: msg.id,
-        senderId: msg.senderId || peerId,
-        senderName: msg.senderName,
-        text: msg.text,
-        timestamp: msg.timestamp
-      });
+      if (msg.recipientId) {
+        // A DM over a direct link; never relayed
+        if (msg.recipientId !== this.getPeerId()) return;
+        if (!this.addChatMessage({ ...msg, senderId: peerId }, peerId)) return;
+        this.notify();
+        this.emitChatReceived(msg.id);
+        return;
+      }
+
+      // Whoever sent it over their own link wrote it; only the host's relays may name someone else,
+      // or anyone could post, then edit and delete, as another participant
+      const message = { ...msg, senderId: this.resolveOrigin(msg.senderId, peerId) };
+      // Relays and history can both deliver the same message
+      if (!this.addChatMessage(message, peerId)) return;
+      this.applyTyping(message.senderId, false);
       this.notify();
+      this.emitChatReceived(msg.id);
 
       if (this.isHost()) {
-        this.connections.forEach(conn => {
-            if (conn.peer !== peerId && conn.open) conn.send(msg);
-        });
+        this.broadcast(message, conn => conn.peer !== peerId);
       }
     }
+    else if (msg.type === 'chat-history') {
+      // The host checked who wrote each message as it came in; an entry naming nobody would
+      // otherwise be credited to the host
+      if (peerId !== this.hostPeerId) return;
+      const added = msg.messages.filter(entry => entry.senderId && this.addChatMessage(entry, peerId));
+      if (added.length === 0) return;
+      this.draft.messages.sort((a, b) => a.timestamp - b.timestamp);
+      this.notify();
+    }
+    else if (msg.type === 'chat-edit') {
+      const origin = this.resolveOrigin(msg.peerId, peerId);
+      const message = this.findChangeableMessage(msg.messageId);
+      // Only the author may edit, and only text
+      if (!message || message.fileId || message.senderId !== origin) return;
+      message.text = msg.text;
+      message.editedAt = msg.editedAt;
+      this.relay(msg, origin);
+      this.notify();
+    }
+    else if (msg.type === 'chat-delete') {
+      const origin = this.resolveOrigin(msg.peerId, peerId);
+      const message = this.findChangeableMessage(msg.messageId);
+      if (!message || (message.senderId !== origin && origin !== this.hostPeerId)) return;
+      this.applyDelete(message);
+      this.relay(msg, origin);
+      this.notify();
+    }
+    else if (msg.type === 'chat-reaction') {
+      const origin = this.resolveOrigin(msg.peerId, peerId);
+      const message = this.findChangeableMessage(msg.messageId);
+      if (!message || origin === this.getPeerId()) return;
+      this.applyMessageReaction(message, origin, msg.emoji, msg.active);
+      this.relay(msg, origin);
+      this.notify();
+    }
+    else if (msg.type === 'typing') {
+      const origin = this.resolveOrigin(msg.peerId, peerId);
+      if (origin === this.getPeerId()) return;
+      this.applyTyping(origin, msg.active);
+      this.relay(msg, origin);
+    }
     else if (msg.type === 'status-update') {
-      const participant = this.state.participants.find(p => p.id === peerId);
+      const origin = this.resolveOrigin(msg.peerId, peerId);
+      const participant = this.draft.participants.find(p => p.id === origin);
       if (participant) {
         participant.hasVideo = msg.hasVideo;
         participant.hasAudio = msg.hasAudio;
         participant.isScreenSharing = msg.isScreenSharing;
+        // PeerJS does not always tell the answering side that a call closed
+        if (!msg.isScreenSharing) {
+          this.endIncomingScreen(origin);
+          this.endRelayedCall(screenTileId(origin));
+        }
         this.notify();
       }
+      this.relay(msg, origin);
+    }
+    else if (msg.type === 'hand') {
+      const origin = this.resolveOrigin(msg.peerId, peerId);
+      if (origin === this.getPeerId()) {
+        // The host cleared our hand
+        if (!msg.raised) { this.draft.isHandRaised = false; this.notify(); }
+        return;
+      }
+      this.applyHand(origin, msg.raised);
+      this.relay(msg, origin);
+      this.notify();
+    }
+    else if (msg.type === 'reaction') {
+      const origin = this.resolveOrigin(msg.peerId, peerId);
+      this.addReaction(origin, msg.emoji);
+      this.relay(msg, origin);
+    }
+    else if (msg.type === 'video-preference') {
+      const origin = this.resolveOrigin(msg.peerId, peerId);
+      if (origin === this.getPeerId()) return;
+      if (msg.receiveVideo) this.videoPausedBy.delete(origin);
+      else this.videoPausedBy.add(origin);
+      this.applySenderEncoding(origin);
+      this.applyRelayEncodings(origin);
+      this.relay(msg, origin);
+    }
+    else if (msg.type === 'recording') {
+      const origin = this.resolveOrigin(msg.peerId, peerId);
+      if (origin === this.getPeerId()) return;
+      this.applyRecordingStatus(origin, msg.active);
+      this.relay(msg, origin);
+      this.notify();
     }
     else if (msg.type === 'active-peers') {
+        // Only the host knows who was admitted; anyone else could point us at a stranger
+        if (peerId !== this.hostPeerId) return;
         msg.peers.forEach(p => {
             if (p.id !== this.getPeerId()) {
+                if (p.screenStream) this.screenReceivers.add(p.id);
                 this.connectToPeer(p.id, p.name);
             }
         });
     }
     else if (msg.type === 'peer-left') {
+        // Participants may only announce their own departure; the host announces everyone's
+        if (msg.peerId !== peerId && peerId !== this.hostPeerId) return;
+        // Leaving on purpose gives up the right to resume
+        if (this.isHost() && msg.peerId === peerId) this.forgetResumeSession(peerId);
         this.handlePeerDisconnection(msg.peerId);
     }
+    else if (msg.type === 'ice-restart') {
+        if (msg.targetId && msg.targetId !== this.getPeerId()) {
+            this.forward(msg, msg.targetId, peerId);
+            return;
+        }
+        this.handleIceRestart(msg, this.resolveOrigin(msg.peerId, peerId));
+    }
+    else if (msg.type === 'dm-key') {
+        const origin = this.resolveOrigin(msg.peerId, peerId);
+        if (origin === this.getPeerId()) return;
+        if (this.isHost() && !this.draft.participants.some(p => p.id === origin)) return;
+        this.setPeerDmKey(origin, msg.publicKey);
+        this.relay(msg, origin);
+        this.notify();
+    }
+    else if (msg.type === 'dm') {
+        if (msg.targetId !== this.getPeerId()) {
+            this.forward(msg, msg.targetId, peerId);
+            return;
+        }
+        this.receiveDirectMessage(msg, this.resolveOrigin(msg.peerId, peerId));
+    }
+    else if (msg.type === 'file-offer') {
+        const origin = this.resolveOrigin(msg.peerId, peerId);
+        if (origin === this.getPeerId()) return;
+        if (this.isHost() && !this.draft.participants.some(p => p.id === origin)) return;
+        if (this.receiveFileOffer(msg, origin)) this.relay(msg, origin);
+    }
+    else if (msg.type === 'file-request') {
+        if (msg.targetId !== this.getPeerId()) {
+            this.forward(msg, msg.targetId, peerId);
+            return;
+        }
+        this.uploadFile(msg.fileId, this.resolveOrigin(msg.peerId, peerId));
+    }
+    else if (msg.type === 'file-chunk') {
+        if (msg.targetId !== this.getPeerId()) {
+            this.forward(msg, msg.targetId, peerId);
+            return;
+        }
+        this.receiveFileChunk(msg, this.resolveOrigin(msg.peerId, peerId));
+    }
+    else if (msg.type === 'succession') {
+        // Only the current host may name its successors
+        if (peerId !== this.hostPeerId) return;
+        this.successionOrder = msg.order;
+        this.successionWaiting = msg.waiting;
+        this.successionToken = msg.token ?? null;
+        this.bannedPeers = new Set(msg.banned || []);
+        this.bannedSessions = new Set(msg.bannedSessions || []);
+        // Carried so a successor keeps honouring the room's choice
+        if (msg.shareChatHistory !== undefined) this.draft.shareChatHistory = msg.shareChatHistory;
+        // Admitted participants hold the key, not the passcode, so a successor can keep checking joiners
+        this.passcodeKey = msg.passcodeKey ?? null;
+        this.autoAdmit = !!msg.autoAdmit;
+        this.notify();
+    }
+    else if (msg.type === 'moderate') {
+        if (peerId !== this.hostPeerId) return;
+        this.applyModeration(msg.action);
+    }
+    else if (msg.type === 'room-settings') {
+        if (peerId !== this.hostPeerId) return;
+        this.applyRoomSettings(msg.settings);
+    }
+    else if (msg.type === 'topology') {
+        if (peerId !== this.hostPeerId) return;
+        this.applyTopology(msg.mode, msg.relayed);
+    }
+  }
+
+  // Returns false for a message we already have
+  private addChatMessage(entry: ChatEntry & { recipientId?: string }, fromPeerId: string) {
+    if (this.draft.messages.some(m => m.id === entry.id)) return false;
+    this.draft.messages.push({
+      id: entry.id,
+      senderId: entry.senderId || fromPeerId,
+      senderName: entry.senderName,
+      text: entry.text,
+      timestamp: entry.timestamp,
+      ...(entry.editedAt ? { editedAt: entry.editedAt } : {}),
+      ...(entry.recipientId ? { recipientId: entry.recipientId } : {})
+    });
+    return true;
+  }
+
+  setChatHistorySharing(enabled: boolean) {
+    this.draft.shareChatHistory = enabled;
+    this.broadcastSuccession();
+    this.notify();
+  }
+
+  private sendChatHistory(conn: DataConnection) {
+    const messages: ChatEntry[] = this.draft.messages
+      .filter(m => !m.isSystem && !m.recipientId && !m.fileId && !m.deleted)
+      .slice(-CHAT_HISTORY_LIMIT)
+      .map(m => ({
+        id: m.id, senderId: m.senderId, senderName: m.senderName, text: m.text, timestamp: m.timestamp,
+        ...(m.editedAt ? { editedAt: m.editedAt } : {})
+      }));
+    if (messages.length > 0) this.sendTo(conn, { type: 'chat-history', messages });
   }
 
   private broadcastStatusUpdate() {
-    const update: Message = {
+    const update: MeetingMessage = {
       type: 'status-update',
-      hasVideo: !this.state.isVideoMuted,
-      hasAudio: !this.state.isAudioMuted,
-      isScreenSharing: this.state.isScreenSharing
+      hasVideo: !this.draft.isVideoMuted,
+      hasAudio: !this.draft.isAudioMuted,
+      isScreenSharing: this.draft.isScreenSharing
     };
 
-    this.connections.forEach(conn => {
-      if (conn.open) conn.send(update);
+    this.broadcast(update);
+  }
+
+  // Relayed messages name their original sender; only the host is trusted to relay
+  private resolveOrigin(claimedId: string | undefined, senderId: string) {
+    return claimedId && senderId === this.hostPeerId ? claimedId : senderId;
+  }
+
+  // Participants only hold a data link to the host, so the host fans their updates out to everyone else
+  private relay(msg: RelayedMessage, originId: string) {
+    if (!this.isHost() || originId === this.getPeerId()) return;
+    this.broadcast({ ...msg, peerId: originId }, conn => conn.peer !== originId);
+  }
+
+  // --- CHAT ACTIONS ---
+
+  // Only public messages change after the fact, so an edit never leaks a DM to the room
+  private findChangeableMessage(messageId: string) {
+    const message = this.draft.messages.find(m => m.id === messageId);
+    return message && !message.isSystem && !message.recipientId && !message.deleted ? message : undefined;
+  }
+
+  canEditMessage(message: ChatMessage) {
+    return this.canChat() && !message.fileId && message.senderId === this.getPeerId() && !!this.findChangeableMessage(message.id);
+  }
+
+  // Authors delete their own messages; the host can delete anyone's
+  canDeleteMessage(message: ChatMessage) {
+    return this.canChat() && (message.senderId === this.getPeerId() || !!this.isHost()) && !!this.findChangeableMessage(message.id);
+  }
+
+  canReactToMessage(message: ChatMessage) {
+    return this.canChat() && !!this.findChangeableMessage(message.id);
+  }
+
+  editMessage(messageId: string, text: string) {
+    const message = this.findChangeableMessage(messageId);
+    if (!message || !this.canEditMessage(message) || !text.trim() || text === message.text) return;
+    message.text = text;
+    message.editedAt = Date.now();
+    this.broadcast({ type: 'chat-edit', messageId, text, editedAt: message.editedAt });
+    this.notify();
+  }
+
+  deleteMessage(messageId: string) {
+    const message = this.findChangeableMessage(messageId);
+    if (!message || !this.canDeleteMessage(message)) return;
+    this.applyDelete(message);
+    this.broadcast({ type: 'chat-delete', messageId });
+    this.notify();
+  }
+
+  toggleMessageReaction(messageId: string, emoji: ReactionEmoji) {
+    const myId = this.getPeerId();
+    const message = this.findChangeableMessage(messageId);
+    if (!myId || !message || !this.canReactToMessage(message)) return;
+    const active = !message.reactions?.[emoji]?.includes(myId);
+    this.applyMessageReaction(message, myId, emoji, active);
+    this.broadcast({ type: 'chat-reaction', messageId, emoji, active });
+    this.notify();
+  }
+
+  private applyDelete(message: ChatMessage) {
+    message.deleted = true;
+    message.text = '';
+    delete message.reactions;
+    if (message.fileId) this.discardFile(message.fileId);
+  }
+
+  private applyMessageReaction(message: ChatMessage, peerId: string, emoji: string, active: boolean) {
+    const reactions = message.reactions ?? {};
+    const peers = (reactions[emoji] ?? []).filter(id => id !== peerId);
+    if (active) peers.push(peerId);
+    if (peers.length > 0) reactions[emoji] = peers;
+    else delete reactions[emoji];
+    message.reactions = reactions;
+  }
+
+  // Called on every keystroke; the room hears about it at most once per TYPING_THROTTLE
+  setTyping(active: boolean) {
+    if (active) {
+      if (!this.canChat()) return;
+      const now = Date.now();
+      if (now - this.lastTypingSentAt < TYPING_THROTTLE) return;
+      this.lastTypingSentAt = now;
+    } else {
+      if (this.lastTypingSentAt === 0) return;
+      this.lastTypingSentAt = 0;
+    }
+    this.broadcast({ type: 'typing', active });
+  }
+
+  private applyTyping(peerId: string, active: boolean) {
+    const timer = this.typingTimers.get(peerId);
+    if (timer) clearTimeout(timer);
+    this.typingTimers.delete(peerId);
+
+    const wasTyping = this.draft.typingPeers.includes(peerId);
+    if (active) {
+      // Senders refresh well within the timeout while they keep typing
+      this.typingTimers.set(peerId, setTimeout(() => this.applyTyping(peerId, false), TYPING_TIMEOUT));
+      if (!wasTyping) this.draft.typingPeers = [...this.draft.typingPeers, peerId];
+    } else if (wasTyping) {
+      this.draft.typingPeers = this.draft.typingPeers.filter(id => id !== peerId);
+    }
+    if (wasTyping !== active) this.notify();
+  }
+
+  // --- DIRECT MESSAGES ---
+
+  private async createDmKeys() {
+    if (!isDirectMessagingSupported()) return;
+    try {
+      this.dmKeyPair = await generateKeyPair();
+      this.dmPublicKey = await exportPublicKey(this.dmKeyPair.publicKey);
+    } catch (e) {
+      console.warn("MeetingManager: Direct messages unavailable", e);
+      this.dmKeyPair = null;
+      this.dmPublicKey = null;
+    }
+  }
+
+  private setPeerDmKey(peerId: string, publicKey: string) {
+    if (this.peerDmKeys.get(peerId) === publicKey) return;
+    // A reloaded participant comes back with a fresh key pair
+    this.peerDmKeys.set(peerId, publicKey);
+    this.sharedDmKeys.delete(peerId);
+  }
+
+  private getSharedDmKey(peerId: string) {
+    const publicKey = this.peerDmKeys.get(peerId);
+    if (!publicKey || !this.dmKeyPair) return null;
+    let key = this.sharedDmKeys.get(peerId);
+    if (!key) {
+      key = deriveSharedKey(this.dmKeyPair.privateKey, publicKey);
+      this.sharedDmKeys.set(peerId, key);
+      key.catch(() => this.sharedDmKeys.delete(peerId));
+    }
+    return key;
+  }
+
+  // The host hands a newcomer its own key and everyone else's
+  private sendDmKeys(conn: DataConnection) {
+    if (this.dmPublicKey) this.sendTo(conn, { type: 'dm-key', publicKey: this.dmPublicKey });
+    this.peerDmKeys.forEach((publicKey, peerId) => {
+      if (peerId !== conn.peer && this.draft.participants.some(p => p.id === peerId)) {
+        this.sendTo(conn, { type: 'dm-key', publicKey, peerId });
+      }
+    });
+  }
+
+  private supportsDirectMessages(peerId: string) {
+    return !!this.peerProtocols.get(peerId)?.capabilities.includes('direct-messages');
+  }
+
+  // Over a direct link the DM goes as is (the link is already encrypted); through the host it is end-to-end encrypted
+  canMessagePrivately(peerId: string) {
+    if (peerId === this.getPeerId() || !this.draft.participants.some(p => p.id === peerId)) return false;
+    if (this.connections.get(peerId)?.open) return this.supportsDirectMessages(peerId);
+    const host = this.hostPeerId ? this.connections.get(this.hostPeerId) : undefined;
+    return !!host?.open && this.supportsDirectMessages(host.peer) && !!this.dmKeyPair && this.peerDmKeys.has(peerId);
+  }
+
+  // Resolves false if the recipient can't be reached privately
+  async sendDirectMessage(text: string, recipientId: string): Promise<boolean> {
+    const myId = this.getPeerId();
+    if (!myId || !this.canChat() || !this.canMessagePrivately(recipientId)) return false;
+
+    const entry = { id: generateSecureToken(), senderId: myId, senderName: this.getMyName(), text, timestamp: Date.now() };
+    const direct = this.connections.get(recipientId);
+    if (direct?.open) {
+      this.sendTo(direct, { type: 'chat-message', ...entry, recipientId });
+    } else {
+      const key = this.getSharedDmKey(recipientId);
+      const host = this.hostPeerId ? this.connections.get(this.hostPeerId) : undefined;
+      if (!key || !host) return false;
+      try {
+        const payload = await encryptText(await key, text);
+        this.sendTo(host, { type: 'dm', targetId: recipientId, id: entry.id, timestamp: entry.timestamp, ...payload });
+      } catch (e) {
+        console.error("MeetingManager: Could not encrypt direct message", e);
+        return false;
+      }
+    }
+
+    this.addChatMessage({ ...entry, recipientId }, myId);
+    this.notify();
+    return true;
+  }
+
+  private async receiveDirectMessage(msg: Extract<MeetingMessage, { type: 'dm' }>, originId: string) {
+    const sender = this.draft.participants.find(p => p.id === originId);
+    const key = this.getSharedDmKey(originId);
+    if (!sender || !key) {
+      console.warn(`MeetingManager: Dropped direct message from ${originId}: no key`);
+      return;
+    }
+    try {
+      const text = await decryptText(await key, msg);
+      const entry = { id: msg.id, senderId: originId, senderName: sender.name, text, timestamp: msg.timestamp };
+      if (!this.addChatMessage({ ...entry, recipientId: this.getPeerId() }, originId)) return;
+      this.notify();
+      this.emitChatReceived(msg.id);
+    } catch (e) {
+      console.warn(`MeetingManager: Could not decrypt direct message from ${originId}`, e);
+    }
+  }
+
+  // --- FILE SHARING ---
+
+  // Resolves with the names of files too large to share
+  async shareFiles(files: File[]): Promise<string[]> {
+    const myId = this.getPeerId();
+    if (!myId || !this.canChat()) return [];
+
+    const tooLarge: string[] = [];
+    for (const file of files) {
+      if (file.size > MAX_SHARED_FILE_SIZE) {
+        tooLarge.push(file.name);
+        continue;
+      }
+      const fileId = generateSecureToken();
+      const thumbnail = await createThumbnail(file);
+      const offer: MeetingMessage = {
+        type: 'file-offer', fileId, name: file.name.slice(0, 255), size: file.size,
+        mimeType: (file.type || 'application/octet-stream').slice(0, 255), senderName: this.getMyName(), timestamp: Date.now(),
+        ...(thumbnail ? { thumbnail } : {})
+      };
+
+      this.outgoingFiles.set(fileId, file);
+      this.draft.sharedFiles[fileId] = {
+        id: fileId, name: offer.name, size: file.size, mimeType: offer.mimeType, senderId: myId, thumbnail: offer.thumbnail,
+        status: 'complete', progress: 1, url: URL.createObjectURL(file), uploads: {}
+      };
+      this.addFileMessage(offer, myId);
+      this.broadcast(offer);
+      this.notify();
+    }
+    return tooLarge;
+  }
+
+  // Returns false for an offer we already have or won't accept
+  private receiveFileOffer(msg: Extract<MeetingMessage, { type: 'file-offer' }>, originId: string) {
+    if (this.draft.sharedFiles[msg.fileId] || msg.size < 0 || msg.size > MAX_SHARED_FILE_SIZE) return false;
+    this.draft.sharedFiles[msg.fileId] = {
+      id: msg.fileId, name: msg.name, size: msg.size, mimeType: msg.mimeType, senderId: originId,
+      // Rendered as an <img>, so only image data URLs get through
+      thumbnail: msg.thumbnail?.startsWith('data:image/') ? msg.thumbnail : undefined,
+      status: 'available', progress: 0, uploads: {}
+    };
+    this.addFileMessage(msg, originId);
+    this.notify();
+    this.emitChatReceived(msg.fileId);
+    return true;
+  }
+
+  private addFileMessage(offer: Extract<MeetingMessage, { type: 'file-offer' }>, senderId: string) {
+    this.draft.messages.push({
+      id: offer.fileId, senderId, senderName: offer.senderName, text: offer.name, timestamp: offer.timestamp, fileId: offer.fileId
+    });
+  }
+
+  // Direct link if we have one, otherwise through the host
+  private routeTo(peerId: string) {
+    const direct = this.connections.get(peerId);
+    if (direct?.open) return direct;
+    const host = this.hostPeerId ? this.connections.get(this.hostPeerId) : undefined;
+    return host?.open ? host : undefined;
+  }
+
+  downloadFile(fileId: string) {
+    const file = this.draft.sharedFiles[fileId];
+    if (!file || (file.status !== 'available' && file.status !== 'failed')) return false;
+    const link = this.routeTo(file.senderId);
+    if (!link) return false;
+
+    this.downloads.set(fileId, { assembler: new ChunkAssembler(file.size, file.mimeType), stallTimer: null });
+    this.armStallTimer(fileId);
+    file.status = 'downloading';
+    file.progress = 0;
+    this.sendTo(link, { type: 'file-request', fileId, targetId: file.senderId });
+    this.notify();
+    return true;
+  }
+
+  private armStallTimer(fileId: string) {
+    const download = this.downloads.get(fileId);
+    if (!download) return;
+    if (download.stallTimer) clearTimeout(download.stallTimer);
+    download.stallTimer = setTimeout(() => this.endDownload(fileId, null), FILE_STALL_TIMEOUT);
+  }
+
+  private receiveFileChunk(msg: Extract<MeetingMessage, { type: 'file-chunk' }>, originId: string) {
+    const file = this.draft.sharedFiles[msg.fileId];
+    const download = this.downloads.get(msg.fileId);
+    if (!file || !download || file.senderId !== originId) return;
+    if (!download.assembler.add(msg.index, msg.data)) return;
+
+    if (download.assembler.isComplete) {
+      this.endDownload(msg.fileId, download.assembler.toBlob());
+      return;
+    }
+    this.armStallTimer(msg.fileId);
+    const progress = download.assembler.progress;
+    if (progress - file.progress >= FILE_PROGRESS_STEP) {
+      file.progress = progress;
+      this.notify();
+    }
+  }
+
+  // A null blob marks the download failed
+  private endDownload(fileId: string, blob: Blob | null) {
+    const download = this.downloads.get(fileId);
+    if (download?.stallTimer) clearTimeout(download.stallTimer);
+    this.downloads.delete(fileId);
+
+    const file = this.draft.sharedFiles[fileId];
+    if (!file) return;
+    if (blob) {
+      file.url = URL.createObjectURL(blob);
+      file.status = 'complete';
+      file.progress = 1;
+    } else {
+      console.warn(`MeetingManager: Download of ${file.name} failed`);
+      file.status = 'failed';
+    }
+    this.notify();
+  }
+
+  private async uploadFile(fileId: string, recipientId: string) {
+    const file = this.outgoingFiles.get(fileId);
+    const shared = this.draft.sharedFiles[fileId];
+    const key = `${fileId}:${recipientId}`;
+    if (!file || !shared || this.activeUploads.has(key) || !this.draft.participants.some(p => p.id === recipientId)) return;
+
+    this.activeUploads.add(key);
+    shared.uploads[recipientId] = 0;
+    this.notify();
+
+    const totalChunks = countChunks(file.size);
+    try {
+      for (let index = 0; index < totalChunks; index++) {
+        const link = this.routeTo(recipientId);
+        // Stop if they left, or we left and the file is gone
+        if (!link || !this.outgoingFiles.has(fileId) || !this.draft.participants.some(p => p.id === recipientId)) return;
+        await waitForBufferSpace(link.dataChannel);
+        const data = await readChunk(file, index);
+        this.sendTo(link, { type: 'file-chunk', fileId, index, data, targetId: recipientId });
+
+        const progress = (index + 1) / totalChunks;
+        if (progress === 1 || progress - shared.uploads[recipientId] >= FILE_PROGRESS_STEP) {
+          shared.uploads[recipientId] = progress;
+          this.notify();
+        }
+      }
+    } catch (e) {
+      console.error(`MeetingManager: Failed to send ${file.name} to ${recipientId}`, e);
+    } finally {
+      this.activeUploads.delete(key);
+    }
+  }
+
+  // A deleted file message takes the file with it, downloaded copies included
+  private discardFile(fileId: string) {
+    const file = this.draft.sharedFiles[fileId];
+    const download = this.downloads.get(fileId);
+    if (download?.stallTimer) clearTimeout(download.stallTimer);
+    this.downloads.delete(fileId);
+    this.outgoingFiles.delete(fileId);
+    if (file?.url) URL.revokeObjectURL(file.url);
+    delete this.draft.sharedFiles[fileId];
+  }
+
+  // Files a departed participant shared can no longer be fetched
+  private withdrawFiles(peerId: string) {
+    Object.values(this.draft.sharedFiles).forEach(file => {
+      if (file.senderId !== peerId || file.status === 'complete') return;
+      const download = this.downloads.get(file.id);
+      if (download?.stallTimer) clearTimeout(download.stallTimer);
+      this.downloads.delete(file.id);
+      file.status = 'unavailable';
+    });
+  }
+
+  // --- HANDS & REACTIONS ---
+
+  toggleHand() {
+    this.setHandRaised(!this.draft.isHandRaised);
+  }
+
+  private setHandRaised(raised: boolean) {
+    const myId = this.getPeerId();
+    if (!myId) return;
+    this.draft.isHandRaised = raised;
+    this.applyHand(myId, raised);
+    this.broadcast({ type: 'hand', raised });
+    this.notify();
+  }
+
+  lowerHand(peerId: string) {
+    if (!this.isHost()) return;
+    if (peerId === this.getPeerId()) return this.setHandRaised(false);
+
+    this.applyHand(peerId, false);
+    this.broadcast({ type: 'hand', raised: false, peerId });
+    this.notify();
+  }
+
+  lowerAllHands() {
+    this.getRaisedHands().forEach(p => this.lowerHand(p.id));
+  }
+
+  getRaisedHands() {
+    return this.draft.participants
+      .filter(p => p.handRaisedAt !== undefined)
+      .sort((a, b) => a.handRaisedAt! - b.handRaisedAt!);
+  }
+
+  private applyHand(peerId: string, raised: boolean) {
+    const p = this.draft.participants.find(part => part.id === peerId);
+    if (!p) return;
+    if (!raised) p.handRaisedAt = undefined;
+    else if (p.handRaisedAt === undefined) p.handRaisedAt = Date.now();
+  }
+
+  sendReaction(emoji: ReactionEmoji) {
+    const myId = this.getPeerId();
+    if (!myId) return;
+    this.addReaction(myId, emoji);
+    this.broadcast({ type: 'reaction', emoji });
+  }
+
+  private addReaction(peerId: string, emoji: string) {
+    const reaction: Reaction = { id: generateSecureToken(8), peerId, emoji, timestamp: Date.now() };
+    this.draft.reactions = [...this.draft.reactions, reaction];
+    this.notify();
+
+    setTimeout(() => {
+      this.draft.reactions = this.draft.reactions.filter(r => r.id !== reaction.id);
+      this.notify();
+    }, REACTION_DURATION);
+  }
+
+  // rotate: hand the successor a new token even if it is the same participant, e.g. after removing someone
+  private broadcastSuccession(rotate = false) {
+    if (!this.isHost()) return;
+    const myId = this.getPeerId();
+
+    const order = this.draft.participants
+      .filter(p => p.id !== myId && p.approvedAt !== undefined)
+      .sort((a, b) => a.approvedAt! - b.approvedAt!)
+      .map(p => p.id);
+    const successor = order[0] ?? null;
+    if (rotate || successor !== this.successorPeerId) this.nameSuccessor(successor);
+
+    const update: MeetingMessage = {
+      type: 'succession',
+      order,
+      waiting: this.draft.waitingPeers.map(w => ({ id: w.peerId, name: w.name })),
+      banned: Array.from(this.bannedPeers),
+      bannedSessions: Array.from(this.bannedSessions),
+      shareChatHistory: this.draft.shareChatHistory,
+      ...(this.passcodeKey ? { passcodeKey: this.passcodeKey, autoAdmit: this.autoAdmit } : {})
+    };
+
+    // Only the next in line holds the token; waiting peers are not admitted yet and see nothing
+    this.broadcast(update, conn => order.includes(conn.peer) && conn.peer !== successor);
+    if (successor && this.successionToken) {
+      this.broadcast({ ...update, token: this.successionToken }, conn => conn.peer === successor);
+    }
+  }
+
+  // The room only lets the participant we name take over, and only with the token we gave them
+  private nameSuccessor(successor: string | null) {
+    this.successorPeerId = successor;
+    this.successionToken = successor ? generateSecureToken() : null;
+    if (!this.roomId || !this.hostToken) return;
+
+    fetch(`/api/rooms/${this.roomId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        hostToken: this.hostToken, hostPeerId: this.getPeerId(), successorPeerId: successor, successionToken: this.successionToken
+      })
+    })
+      .then(res => { if (!res.ok) console.warn("MeetingManager: Room did not accept our successor", res.status); })
+      .catch(e => console.error(e));
+  }
+
+  // --- MODERATION ---
+
+  muteParticipant(peerId: string) { this.moderate(peerId, 'mute'); }
+
+  stopParticipantVideo(peerId: string) { this.moderate(peerId, 'stop-video'); }
+
+  removeParticipant(peerId: string) { this.expel(peerId, 'remove'); }
+
+  banParticipant(peerId: string) {
+    if (!this.isHost()) return;
+    this.bannedPeers.add(peerId);
+    // A reload brings them back under a new peer id, but with the session we gave them
+    this.resumeSessions.forEach((session, token) => {
+      if (session.peerId === peerId) this.bannedSessions.add(token);
     });
+    if (this.draft.waitingPeers.some(w => w.peerId === peerId)) {
+      this.rejectParticipant(peerId);
+      this.broadcastSuccession(true);
+    } else {
+      this.expel(peerId, 'ban');
+    }
+  }
+
+  private moderate(peerId: string, action: ModerationAction) {
+    if (!this.isHost()) return;
+    const conn = this.connections.get(peerId);
+    if (conn) this.sendTo(conn, { type: 'moderate', action });
+  }
+
+  private expel(peerId: string, action: 'remove' | 'ban') {
+    if (!this.isHost() || peerId === this.getPeerId()) return;
+    if (!this.draft.participants.some(p => p.id === peerId)) return;
+
+    this.moderate(peerId, action);
+
+    // Give the notice a moment to land before tearing down the links
+    const conn = this.connections.get(peerId);
+    const call = this.calls.get(peerId);
+    setTimeout(() => { conn?.close(); call?.close(); }, 300);
+
+    this.forgetResumeSession(peerId);
+    this.handlePeerDisconnection(peerId, 'was removed by the host');
+    // They may have been next in line once; whatever token they saw stops working
+    this.broadcastSuccession(true);
+  }
+
+  private async applyModeration(action: ModerationAction) {
+    if (action === 'mute') {
+      if (!this.draft.isAudioMuted) this.toggleAudio();
+    } else if (action === 'stop-video') {
+      if (this.draft.isScreenSharing) await this.stopScreenShare();
+      if (!this.draft.isVideoMuted) await this.toggleVideo();
+    } else {
+      // A ban keeps our session on file, so the host knows us again if the page is reloaded
+      const { roomId, resumeToken } = this;
+      this.leave();
+      if (action === 'ban' && roomId && resumeToken) this.storeResumeToken(resumeToken, roomId);
+      this.draft.error = action === 'ban'
+        ? "You were removed from the meeting and cannot rejoin"
+        : "You were removed from the meeting by the host";
+    }
+    this.draft.lastModeration = { action, timestamp: Date.now() };
+    this.notify();
+  }
+
+  // --- RECONNECTION ---
+
+  private handleIceState(peerId: string, iceState: RTCIceConnectionState) {
+    if (iceState === 'connected' || iceState === 'completed') {
+      this.checkRecovered(peerId);
+    } else if (iceState === 'disconnected' || iceState === 'failed') {
+      this.beginRecovery(peerId);
+    }
+  }
+
+  // A link closed without the peer saying goodbye
+  private handleLinkLost(peerId: string, link: DataConnection | MediaConnection) {
+    if (this.isLeaving) return;
+    // Links we already replaced (or tore down ourselves) close quietly
+    if (this.connections.get(peerId) !== link && this.calls.get(peerId) !== link) return;
+
+    if (!this.draft.participants.some(p => p.id === peerId)) {
+      this.handlePeerDisconnection(peerId);
+      return;
+    }
+    this.beginRecovery(peerId);
+  }
+
+  private beginRecovery(peerId: string) {
+    if (this.isLeaving || this.recoveries.has(peerId) || peerId === this.getPeerId()) return;
+    const participant = this.draft.participants.find(p => p.id === peerId);
+    if (!participant) return;
+
+    participant.status = 'reconnecting';
+    const graceTimer = setTimeout(() => {
+      this.clearRecovery(peerId);
+      this.handlePeerDisconnection(peerId, 'lost connection');
+    }, RECONNECT_GRACE_PERIOD);
+    this.recoveries.set(peerId, { attempt: 0, retryTimer: null, graceTimer });
+    this.scheduleRecoveryAttempt(peerId, ICE_SETTLE_DELAY);
+    this.notify();
+  }
+
+  private scheduleRecoveryAttempt(peerId: string, delay: number) {
+    const recovery = this.recoveries.get(peerId);
+    if (!recovery) return;
+    if (recovery.retryTimer) clearTimeout(recovery.retryTimer);
+    recovery.retryTimer = setTimeout(() => this.attemptRecovery(peerId), delay);
+  }
+
+  private async attemptRecovery(peerId: string) {
+    const recovery = this.recoveries.get(peerId);
+    if (!recovery) return;
+    if (this.isLinkHealthy(peerId)) {
+      this.endRecovery(peerId);
+      return;
+    }
+
+    // The host carries this peer's media now, so there is no call to save
+    if (!this.wantsDirectMedia(peerId)) {
+      this.dropDirectMedia(peerId);
+      return;
+    }
+
+    const attempt = recovery.attempt++;
+    // PeerJS drops the RTCPeerConnection once ICE has failed outright; only a live one can be restarted
+    if (attempt === 0 && this.calls.get(peerId)?.peerConnection) {
+      // The lower id drives the restart so offers never cross
+      if (this.drivesReconnect(peerId)) await this.restartIce(peerId);
+      this.scheduleRecoveryAttempt(peerId, ICE_RESTART_TIMEOUT);
+      return;
+    }
+
+    this.reestablishLinks(peerId);
+    this.scheduleRecoveryAttempt(peerId, reconnectDelay(attempt));
+  }
+
+  private drivesReconnect(peerId: string) {
+    const myId = this.getPeerId();
+    return !!myId && myId < peerId;
+  }
+
+  private isLinkHealthy(peerId: string) {
+    const iceState = this.calls.get(peerId)?.peerConnection?.iceConnectionState;
+    const mediaOk = iceState === 'connected' || iceState === 'completed';
+    // Only the host and its participants share a data link
+    const needsData = this.isHost() || peerId === this.hostPeerId;
+    return mediaOk && (!needsData || !!this.connections.get(peerId)?.open);
+  }
+
+  private checkRecovered(peerId: string) {
+    if (this.recoveries.has(peerId) && this.isLinkHealthy(peerId)) this.endRecovery(peerId);
+  }
+
+  private endRecovery(peerId: string) {
+    this.clearRecovery(peerId);
+    const participant = this.draft.participants.find(p => p.id === peerId);
+    if (participant?.status === 'reconnecting') participant.status = 'connected';
+    this.notify();
+  }
+
+  private clearRecovery(peerId: string) {
+    const recovery = this.recoveries.get(peerId);
+    if (!recovery) return;
+    if (recovery.retryTimer) clearTimeout(recovery.retryTimer);
+    clearTimeout(recovery.graceTimer);
+    this.recoveries.delete(peerId);
+  }
+
+  private async restartIce(peerId: string) {
+    const pc = this.calls.get(peerId)?.peerConnection;
+    if (!pc || pc.connectionState === 'closed') return;
+    try {
+      const sdp = await createIceRestartOffer(pc);
+      if (sdp) this.sendSignal(peerId, { type: 'ice-restart', description: 'offer', sdp });
+    } catch (e) {
+      console.warn(`ICE restart with ${peerId} failed`, e);
+    }
+  }
+
+  private async handleIceRestart(msg: Extract<MeetingMessage, { type: 'ice-restart' }>, originId: string) {
+    const pc = this.calls.get(originId)?.peerConnection;
+    if (!pc || pc.connectionState === 'closed') return;
+    try {
+      const answer = await applyIceRestartDescription(pc, msg.description, msg.sdp);
+      if (answer) this.sendSignal(originId, { type: 'ice-restart', description: 'answer', sdp: answer });
+    } catch (e) {
+      console.warn(`Could not apply ICE restart from ${originId}`, e);
+    }
+  }
+
+  // Participants have no data link to each other, so their signalling goes through the host
+  private sendSignal(targetId: string, msg: Extract<MeetingMessage, { type: 'ice-restart' }>) {
+    const direct = this.connections.get(targetId);
+    if (direct?.open) {
+      this.sendTo(direct, msg);
+      return;
+    }
+    const host = this.hostPeerId ? this.connections.get(this.hostPeerId) : undefined;
+    if (host?.open) this.sendTo(host, { ...msg, targetId });
+  }
+
+  // ICE restart did not bring the peer back: open fresh links over the signalling server
+  private reestablishLinks(peerId: string) {
+    if (!this.peer || this.peer.destroyed) return;
+    if (this.peer.disconnected) {
+      // PeerJS keeps our id across reconnect(); the next attempt rebuilds the links
+      this.peer.reconnect();
+      return;
+    }
+
+    // Participants dial the host back; the host waits for them
+    if (peerId === this.hostPeerId && !this.isHost() && !this.connections.get(peerId)?.open) {
+      this.setupDataConnection(this.peer.connect(peerId, { metadata: { reconnect: true } }));
+    }
+
+    const iceState = this.calls.get(peerId)?.peerConnection?.iceConnectionState;
+    const mediaOk = iceState === 'connected' || iceState === 'completed';
+    if (!mediaOk && this.drivesReconnect(peerId) && this.localStream) {
+      const name = this.draft.participants.find(p => p.id === peerId)?.name;
+      const call = this.peer.call(peerId, this.localStream, { metadata: { name: this.getMyName(), reconnect: true, screenStream: true } });
+      this.setupCall(call, name);
+    }
+  }
+
+  // --- SESSION RESUME ---
+
+  private issueResumeToken(peerId: string, name: string, approvedAt: number) {
+    this.pruneResumeSessions();
+    const token = generateSecureToken();
+    this.resumeSessions.set(token, { peerId, name, approvedAt, leftAt: null });
+    return token;
+  }
+
+  private pruneResumeSessions() {
+    const now = Date.now();
+    this.resumeSessions.forEach((session, token) => {
+      if (session.leftAt !== null && now - session.leftAt > RESUME_WINDOW) this.resumeSessions.delete(token);
+    });
+  }
+
+  private markSessionLeft(peerId: string) {
+    this.resumeSessions.forEach(session => {
+      if (session.peerId === peerId && session.leftAt === null) session.leftAt = Date.now();
+    });
+  }
+
+  private forgetResumeSession(peerId: string) {
+    this.resumeSessions.forEach((session, token) => {
+      if (session.peerId === peerId) this.resumeSessions.delete(token);
+    });
+  }
+
+  // Re-admits someone who reloaded the page under their old name and place in the roster
+  private tryResume(conn: DataConnection, token: string) {
+    const session = this.resumeSessions.get(token);
+    if (!session) return false;
+    if (session.leftAt !== null && Date.now() - session.leftAt > RESUME_WINDOW) {
+      this.resumeSessions.delete(token);
+      return false;
+    }
+
+    // A token copied into a second tab must not evict a participant who is still here
+    const previous = this.draft.participants.find(p => p.id === session.peerId);
+    if (previous && previous.status !== 'reconnecting' && this.connections.get(session.peerId)?.open) return false;
+
+    // Tokens are single use; admission hands out a fresh one
+    this.resumeSessions.delete(token);
+    if (previous) {
+      const staleLinks = [this.connections.get(session.peerId), this.calls.get(session.peerId)];
+      this.handlePeerDisconnection(session.peerId, null);
+      staleLinks.forEach(link => link?.close());
+    }
+
+    if (!this.draft.waitingPeers.some(w => w.peerId === conn.peer)) {
+      this.draft.waitingPeers.push({ peerId: conn.peer, name: session.name, conn });
+    }
+    this.admit(conn.peer, session);
+    return true;
+  }
+
+  private loadResumeToken(roomId: string) {
+    try {
+      return window.sessionStorage.getItem(RESUME_STORAGE_PREFIX + roomId);
+    } catch {
+      return null;
+    }
+  }
+
+  // sessionStorage survives a reload but not closing the tab
+  private storeResumeToken(token: string, roomId = this.roomId) {
+    this.resumeToken = token;
+    if (!roomId) return;
+    try {
+      window.sessionStorage.setItem(RESUME_STORAGE_PREFIX + roomId, token);
+    } catch (e) {
+      console.warn("MeetingManager: Could not store resume token", e);
+    }
+  }
+
+  private clearResumeToken() {
+    this.resumeToken = null;
+    if (!this.roomId) return;
+    try {
+      window.sessionStorage.removeItem(RESUME_STORAGE_PREFIX + this.roomId);
+    } catch {
+      // Storage unavailable; nothing to clear
+    }
+  }
+
+  // --- ATTENDANCE ---
+
+  // Every state change funnels through notify(), so comparing the participant list here
+  // catches joins and departures whichever path they took
+  private syncAttendance() {
+    const now = Date.now();
+    const present = new Set(this.draft.participants.map(p => p.id));
+    if (present.size > 0 && this.meetingStartedAt === null) this.meetingStartedAt = now;
+
+    this.draft.participants.forEach(p => {
+      let record = this.attendance.get(p.id);
+      if (!record) {
+        record = { peerId: p.id, name: p.name, role: p.role, sessions: [] };
+        this.attendance.set(p.id, record);
+      }
+      // Names and roles settle after the first sighting (join-accepted, host migration)
+      record.name = p.name;
+      record.role = p.role;
+      const last = record.sessions[record.sessions.length - 1];
+      if (!last || last.leftAt !== null) record.sessions.push({ joinedAt: now, leftAt: null });
+    });
+
+    this.attendance.forEach((record, peerId) => {
+      const last = record.sessions[record.sessions.length - 1];
+      if (!present.has(peerId) && last && last.leftAt === null) last.leftAt = now;
+    });
+  }
+
+  // --- EVENTS ---
+
+  // Like attendance, most events fall out of comparing consecutive snapshots, which catches
+  // every path a join, departure or mute can take. Chat is the exception: history replays
+  // messages we never saw arrive, so chat-received is emitted where live messages land.
+  private emitChanges(previous: MeetingState, next: MeetingState) {
+    if (previous === next) return;
+    const myId = this.getPeerId();
+
+    if (next.connectionState !== previous.connectionState) {
+      this.events.emit('connection-state-changed', { state: next.connectionState, previous: previous.connectionState });
+    }
+    if (next.error && next.error !== previous.error) {
+      this.events.emit('error', { message: next.error, signaling: next.signalingError });
+    }
+
+    if (next.isAudioMuted !== previous.isAudioMuted || next.isVideoMuted !== previous.isVideoMuted
+      || next.isScreenSharing !== previous.isScreenSharing) {
+      this.events.emit('media-changed', {
+        peerId: myId ?? null, isLocal: true,
+        hasAudio: !next.isAudioMuted, hasVideo: !next.isVideoMuted, isScreenSharing: next.isScreenSharing
+      });
+    }
+
+    if (next.waitingPeers !== previous.waitingPeers) {
+      const waiting = new Set(previous.waitingPeers.map(w => w.peerId));
+      next.waitingPeers
+        .filter(w => !waiting.has(w.peerId))
+        .forEach(w => this.events.emit('join-requested', { peerId: w.peerId, name: w.name }));
+    }
+
+    // Leaving empties the list; that is us going, not everyone else
+    if (next.participants === previous.participants || this.isLeaving) return;
+    const before = new Map(previous.participants.map(p => [p.id, p]));
+    const after = new Set(next.participants.map(p => p.id));
+
+    next.participants.forEach(p => {
+      if (p.id === myId) return;
+      const old = before.get(p.id);
+      if (!old) {
+        this.events.emit('participant-joined', { participant: p });
+      } else if (old !== p && (old.hasAudio !== p.hasAudio || old.hasVideo !== p.hasVideo || !!old.isScreenSharing !== !!p.isScreenSharing)) {
+        this.events.emit('media-changed', {
+          peerId: p.id, isLocal: false, hasAudio: p.hasAudio, hasVideo: p.hasVideo, isScreenSharing: !!p.isScreenSharing
+        });
+      }
+    });
+    previous.participants
+      .filter(p => p.id !== myId && !after.has(p.id))
+      .forEach(p => this.events.emit('participant-left', { participant: p }));
+  }
+
+  // After notify(), so listeners find the message in the state
+  private emitChatReceived(messageId: string) {
+    const message = this.state.messages.find(m => m.id === messageId);
+    if (message) this.events.emit('chat-received', { message });
+  }
+
+  createMeetingReport(roomTitle: string): MeetingReport {
+    const endedAt = Date.now();
+    return {
+      roomId: this.roomId,
+      roomTitle,
+      recordedBy: this.getMyName(),
+      startedAt: this.meetingStartedAt ?? endedAt,
+      endedAt,
+      attendance: Array.from(this.attendance.values()).map(record => ({
+        ...record, sessions: record.sessions.map(session => ({ ...session }))
+      })),
+      messages: toReportMessages(this.draft.messages, this.draft.sharedFiles)
+    };
+  }
+
+  // --- ROOM SETTINGS ---
+
+  // Hosts call this before startHosting, and again whenever they change a switch
+  setRoomSettings(settings: RoomSettings) {
+    this.draft.roomSettings = pickRoomSettings(settings);
+    if (this.isHost()) {
+      this.broadcast({ type: 'room-settings', settings: this.draft.roomSettings });
+      this.updateTopology();
+    }
+    this.notify();
+  }
+
+  // The host is never locked out of its own room's features
+  canChat() {
+    return this.draft.roomSettings.enableChat || !!this.isHost();
+  }
+
+  canShareScreen() {
+    return this.draft.roomSettings.enableScreenShare || !!this.isHost();
+  }
+
+  isRoomFull() {
+    return this.draft.participants.length >= this.draft.roomSettings.maxParticipants;
+  }
+
+  private async applyRoomSettings(settings: RoomSettings) {
+    // Hosts from before topologies leave that switch out
+    this.draft.roomSettings = pickRoomSettings({ ...DEFAULT_ROOM_SETTINGS, ...settings });
+    // The first settings after admission say how we enter
+    if (this.awaitingEntrySettings) {
+      this.awaitingEntrySettings = false;
+      if (settings.muteOnEntry && !this.draft.isAudioMuted) this.toggleAudio();
+      if (!settings.videoOnEntry && !this.draft.isVideoMuted) await this.toggleVideo();
+    }
+    if (!this.canShareScreen() && this.draft.isScreenSharing) await this.stopScreenShare();
+    if (!this.canChat()) this.setTyping(false);
+    this.notify();
+  }
+
+  // --- TOPOLOGY ---
+
+  private supportsRelay(peerId: string) {
+    return !!this.peerProtocols.get(peerId)?.capabilities.includes('relay-media');
+  }
+
+  // Whether we should hold a call with this peer, or get their media from the host
+  private wantsDirectMedia(peerId: string) {
+    return this.isHost() || peerId === this.hostPeerId || !this.relayedPeers.has(peerId);
+  }
+
+  // As host: pick the topology for the room's size and tell everyone which peers we now forward.
+  // Clients without relay support keep their mesh calls, and everyone calls them as before.
+  private updateTopology() {
+    if (!this.isHost()) return;
+    const myId = this.getPeerId();
+    const mode = resolveTopology(this.draft.roomSettings.topology, this.draft.participants.length);
+    const relayed = mode === 'star'
+      ? this.draft.participants.filter(p => p.id !== myId && this.supportsRelay(p.id)).map(p => p.id)
+      : [];
+    this.draft.topology = mode;
+    this.relayedPeers = new Set(relayed);
+    this.broadcast({ type: 'topology', mode, relayed });
+    this.syncRelays();
+    this.notify();
+  }
+
+  // As host: forward every relayed participant's camera and screen to every other relayed participant
+  private syncRelays() {
+    if (!this.isHost() || !this.peer) return;
+    const wanted: Map<string, { receiverId: string; sourceId: string; stream: MediaStream; screen: boolean }> = new Map();
+    this.relayedPeers.forEach(receiverId => {
+      this.relayedPeers.forEach(sourceId => {
+        const source = this.draft.participants.find(p => p.id === sourceId);
+        if (sourceId === receiverId || !source) return;
+        if (source.stream) wanted.set(relayKey(receiverId, sourceId), { receiverId, sourceId, stream: source.stream, screen: false });
+        if (source.screenStream) {
+          wanted.set(relayKey(receiverId, screenTileId(sourceId)), { receiverId, sourceId, stream: source.screenStream, screen: true });
+        }
+      });
+    });
+
+    // A relay whose source left, or whose stream was replaced by a reconnect, goes
+    this.relayCalls.forEach((relay, key) => {
+      if (wanted.get(key)?.stream === relay.stream) return;
+      this.relayCalls.delete(key);
+      this.appliedEncodings.delete(key);
+      relay.call.close();
+    });
+
+    wanted.forEach((relay, key) => {
+      if (this.relayCalls.has(key)) return;
+      const name = this.draft.participants.find(p => p.id === relay.sourceId)?.name;
+      const call = this.peer!.call(relay.receiverId, relay.stream, {
+        metadata: { kind: 'relay', sourceId: relay.sourceId, name, screen: relay.screen }
+      });
+      if (!call) return;
+      this.relayCalls.set(key, { call, stream: relay.stream, receiverId: relay.receiverId, screen: relay.screen });
+
+      const forget = () => {
+        if (this.relayCalls.get(key)?.call !== call) return;
+        this.relayCalls.delete(key);
+        this.appliedEncodings.delete(key);
+      };
+      call.on('close', forget);
+      call.on('error', (e) => { console.error(e); forget(); });
+    });
+  }
+
+  private applyTopology(mode: MeetingTopology, relayed: string[]) {
+    this.draft.topology = mode;
+    this.relayedPeers = new Set(relayed);
+
+    Array.from(this.calls.keys()).forEach(peerId => {
+      if (!this.wantsDirectMedia(peerId)) this.dropDirectMedia(peerId);
+    });
+    // Peers the host stopped forwarding need a call again; the lower id dials so the calls never cross
+    const myId = this.getPeerId();
+    this.draft.participants.forEach(p => {
+      if (p.id === myId || p.id === this.hostPeerId || this.calls.has(p.id)) return;
+      if (this.drivesReconnect(p.id)) this.connectToPeer(p.id, p.name);
+    });
+    this.notify();
+  }
+
+  // The host carries this peer's media from now on
+  private dropDirectMedia(peerId: string) {
+    const call = this.calls.get(peerId);
+    this.calls.delete(peerId);
+    call?.close();
+    this.outgoingScreenCalls.get(peerId)?.close();
+    this.outgoingScreenCalls.delete(peerId);
+    if (this.incomingScreenCalls.has(peerId)) this.endIncomingScreen(peerId);
+    this.stopStatsMonitoring(peerId);
+    this.clearRecovery(peerId);
+    this.appliedEncodings.delete(peerId);
+    this.appliedEncodings.delete(screenEncodingId(peerId));
+
+    const p = this.draft.participants.find(part => part.id === peerId);
+    if (p) {
+      if (p.status === 'reconnecting') p.status = 'connected';
+      if (!this.relayedCalls.has(peerId)) {
+        delete p.stream;
+        this.audioMonitor.untrack(peerId);
+      }
+    }
+    // Fewer calls leave more uplink for each one
+    this.updateSenderEncodings();
+  }
+
+  // As participant: the host forwarding someone else's camera or screen to us
+  private receiveRelayCall(call: MediaConnection) {
+    const { sourceId, name, screen } = (call.metadata ?? {}) as CallMetadata;
+    if (call.peer !== this.hostPeerId || !sourceId || sourceId === this.getPeerId()) {
+      call.close();
+      return;
+    }
+    call.answer(); // Receive only
+
+    const relayId = screen ? screenTileId(sourceId) : sourceId;
+    const previous = this.relayedCalls.get(relayId);
+    this.relayedCalls.set(relayId, call);
+    if (previous && previous !== call) previous.close();
+
+    // Nobody calls us directly in a star, so a forwarded camera is how we learn who is here
+    if (!screen && !this.draft.participants.some(p => p.id === sourceId)) {
+      this.draft.participants.push({
+        id: sourceId, name: name || "User", role: 'participant', status: 'connected',
+        hasAudio: true, hasVideo: true, isScreenSharing: false
+      });
+      this.notify();
+    }
+
+    call.on('stream', (stream) => {
+      const p = this.draft.participants.find(part => part.id === sourceId);
+      if (!p || this.relayedCalls.get(relayId) !== call) return;
+      if (screen) {
+        p.screenStream = stream;
+      } else {
+        p.stream = stream;
+        this.audioMonitor.track(sourceId, stream);
+        this.startAudioMonitoring();
+      }
+      this.notify();
+    });
+    call.on('close', () => this.endRelayedCall(relayId, call));
+    call.on('error', (e) => { console.error(e); this.endRelayedCall(relayId, call); });
+  }
+
+  private endRelayedCall(relayId: string, call?: MediaConnection) {
+    const current = this.relayedCalls.get(relayId);
+    if (!current || (call && current !== call)) return;
+    this.relayedCalls.delete(relayId);
+    current.close();
+
+    const sourceId = (current.metadata as CallMetadata).sourceId!;
+    const p = this.draft.participants.find(part => part.id === sourceId);
+    if (!p) return;
+    if (relayId === screenTileId(sourceId)) {
+      delete p.screenStream;
+    } else if (!this.calls.has(sourceId)) {
+      // Back in a mesh the direct call brings the camera instead
+      delete p.stream;
+      this.audioMonitor.untrack(sourceId);
+    }
+    this.notify();
+  }
+
+  // --- PASSCODE ---
+
+  // Hosts call this before startHosting; null turns the check off
+  async setParticipantPasscode(roomId: string, passcode: string | null, autoAdmit: boolean) {
+    this.passcodeKey = passcode && isPasscodeSupported() ? await derivePasscodeKey(roomId, passcode) : null;
+    this.autoAdmit = !!this.passcodeKey && autoAdmit;
+  }
+
+  private challengePasscode(conn: DataConnection) {
+    const waiter = this.draft.waitingPeers.find(w => w.peerId === conn.peer);
+    if (!waiter) return;
+    // A client too old to answer can't prove anything
+    if (!this.peerProtocols.get(conn.peer)?.capabilities.includes('passcode')) {
+      this.rejectParticipant(conn.peer, 'passcode');
+      return;
+    }
+    const nonce = createPasscodeChallenge();
+    this.passcodeChallenges.set(conn.peer, nonce);
+    waiter.passcode = 'pending';
+    this.sendTo(conn, { type: 'passcode-challenge', nonce });
+  }
+
+  private async answerPasscode(conn: DataConnection, nonce: string) {
+    const myId = this.getPeerId();
+    if (!myId) return;
+    let proof = '';
+    if (this.joinPasscode && this.roomId && isPasscodeSupported()) {
+      const key = await derivePasscodeKey(this.roomId, this.joinPasscode);
+      proof = await answerPasscodeChallenge(key, nonce, conn.peer, myId);
+    }
+    this.sendTo(conn, { type: 'passcode-answer', proof });
+  }
+
+  private async checkPasscodeAnswer(peerId: string, proof: string) {
+    const nonce = this.passcodeChallenges.get(peerId);
+    const myId = this.getPeerId();
+    if (!nonce || !this.passcodeKey || !myId) return;
+    // Each nonce gets exactly one answer
+    this.passcodeChallenges.delete(peerId);
+
+    const valid = proof !== '' && await verifyPasscodeAnswer(this.passcodeKey, nonce, myId, peerId, proof);
+    const waiter = this.draft.waitingPeers.find(w => w.peerId === peerId);
+    if (!waiter) return;
+
+    if (!valid) {
+      this.rejectParticipant(peerId, 'passcode');
+      return;
+    }
+    waiter.passcode = 'verified';
+    if (this.autoAdmit || !this.draft.roomSettings.allowWaitingRoom) this.admit(peerId);
+    else this.notify();
+  }
+
+  // --- HOST MIGRATION ---
+
+  private handleHostLoss(previousHostId: string) {
+    this.hostPeerId = null;
+
+    // Still in the lobby: the successor will reach out to us from the relayed waiting list
+    if (this.draft.connectionState !== 'active' && this.draft.connectionState !== 'connected') {
+      const [offer] = this.takeoverOffers.values();
+      if (offer) this.acceptTakeover(offer);
+      return;
+    }
+
+    const myId = this.getPeerId();
+    const remaining = new Set(this.draft.participants.map(p => p.id));
+    if (myId) remaining.add(myId);
+    remaining.delete(previousHostId);
+
+    // Earliest-approved participant wins; fall back to a stable ordering everyone agrees on
+    const successor = this.successionOrder.find(id => remaining.has(id)) ?? Array.from(remaining).sort()[0];
+    if (!successor) return;
+
+    this.hostPeerId = successor;
+    if (successor === myId) {
+      this.becomeHost(previousHostId);
+    } else {
+      const p = this.draft.participants.find(part => part.id === successor);
+      if (p) p.role = 'host';
+      this.notify();
+    }
+  }
+
+  private async becomeHost(previousHostId: string) {
+    const myId = this.getPeerId();
+    if (!myId || !this.peer) return;
+    // From here on successionToken is the one we hand out; ours is spent on the room below
+    const successionToken = this.successionToken;
+    this.successionToken = null;
+    this.successorPeerId = null;
+
+    const me = this.draft.participants.find(p => p.id === myId);
+    if (me) {
+      me.role = 'host';
+    } else {
+      this.draft.participants.unshift({
+        id: myId, name: this.getMyName(), role: 'host', status: 'connected',
+        hasAudio: !this.draft.isAudioMuted, hasVideo: !this.draft.isVideoMuted, isScreenSharing: this.draft.isScreenSharing
+      });
+    }
+    this.addSystemMessage(`You are now the host`);
+
+    // Carry the previous host's line of succession forward
+    this.draft.participants.forEach(p => {
+      if (p.id === myId || p.approvedAt !== undefined) return;
+      const rank = this.successionOrder.indexOf(p.id);
+      p.approvedAt = rank === -1 ? Date.now() : rank;
+    });
+
+    // Participants only share media with each other, so open the data links the old host used to hold
+    const targets = [
+      ...this.draft.participants.filter(p => p.id !== myId && p.id !== previousHostId).map(p => p.id),
+      ...this.successionWaiting.map(w => w.id)
+    ];
+    targets.forEach(peerId => {
+      if (this.connections.get(peerId)?.open) return;
+      const metadata: ConnectionMetadata = { hostTakeover: true, name: this.getMyName() };
+      const conn = this.peer!.connect(peerId, { metadata });
+      this.setupDataConnection(conn);
+    });
+    this.successionWaiting = [];
+    // In a star we only had the old host's forwarded copies; as the new hub we need calls of our own
+    this.draft.participants.forEach(p => {
+      if (p.id !== myId && p.id !== previousHostId) this.connectToPeer(p.id, p.name);
+    });
+
+    // Point the room at us so new joiners knock on the right door
+    if (this.roomId && successionToken) {
+      const hostToken = generateSecureToken();
+      try {
+        const res = await fetch(`/api/rooms/${this.roomId}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ successionToken, previousHostPeerId: previousHostId, hostPeerId: myId, hostToken })
+        });
+        if (res.ok) this.hostToken = hostToken;
+        else console.warn("MeetingManager: Room did not accept host migration", res.status);
+      } catch (e) { console.error(e); }
+    }
+
+    // Links opened above may already have named a successor, before the room would listen to us
+    this.broadcastSuccession(true);
+    this.updateTopology();
+    this.notify();
+  }
+
+  // Saying you are taking over proves nothing. In the meeting the successor is whoever handleHostLoss
+  // elects from the order the host gave us, so the link gets no say; lobby peers were never told
+  // the order, and follow the first offer once they have seen the host go themselves
+  private handleIncomingConnection(conn: DataConnection) {
+    this.setupDataConnection(conn);
+    const metadata = conn.metadata as ConnectionMetadata | undefined;
+    if (!metadata?.hostTakeover || this.isHost()) return;
+    if (this.draft.connectionState === 'active' || this.draft.connectionState === 'connected') return;
+
+    this.takeoverOffers.set(conn.peer, conn);
+    conn.on('close', () => {
+      if (this.takeoverOffers.get(conn.peer) === conn) this.takeoverOffers.delete(conn.peer);
+    });
+    if (!this.hostPeerId) this.acceptTakeover(conn);
+  }
+
+  private acceptTakeover(conn: DataConnection) {
+    this.takeoverOffers.clear();
+    this.hostPeerId = conn.peer;
+    // Re-knock on the new host's door
+    if (this.draft.connectionState === 'waiting' && this.localName) {
+      const name = this.localName;
+      if (conn.open) this.sendJoinRequest(conn, name);
+      else conn.once('open', () => this.sendJoinRequest(conn, name));
+    }
+    this.notify();
+  }
+
+  // --- SIGNALING ---
+
+  // Registers with the signaling server this deployment is configured for; null if we cannot
+  private async createPeer(): Promise<Peer | null> {
+    let config: SignalingConfig;
+    try {
+      config = await this.peers.loadConfig();
+    } catch (e) {
+      console.error("MeetingManager: No signaling configuration", e);
+      this.failSignaling('config');
+      return null;
+    }
+
+    const peer = this.peers.createPeer({ ...peerOptions(config), config: { iceServers: ICE_SERVERS } });
+    let opened = false;
+    peer.on('open', () => {
+      opened = true;
+      this.signalingRetry.attempt = 0;
+      if (this.draft.signalingError) {
+        this.draft.signalingError = null;
+        this.notify();
+      }
+    });
+    peer.on('error', (err) => this.handlePeerError(err, config, opened));
+    peer.on('disconnected', () => {
+      if (opened) this.handleSignalingLost(peer);
+    });
+    return peer;
+  }
+
+  private handlePeerError(err: PeerError<string>, config: SignalingConfig, opened: boolean) {
+    const kind = classifySignalingError(err);
+    if (!kind) {
+      console.warn(`MeetingManager: Peer error (${err.type})`, err);
+      return;
+    }
+    console.error(`MeetingManager: Signaling server ${describeSignalingConfig(config)} failed (${err.type})`, err);
+    // Once in, our links carry on without the broker; 'disconnected' follows and we try to get back
+    if (!opened) this.failSignaling(kind);
+  }
+
+  // We never got in; PeerJS has already given up on this peer
+  private failSignaling(kind: SignalingErrorKind) {
+    if (this.isLeaving) return;
+    this.draft.signalingError = kind;
+    this.draft.error = kind === 'config' ? "Signaling is not configured correctly"
+      : kind === 'invalid-key' ? "The signaling server rejected our key"
+      : kind === 'ssl' ? "The signaling server does not support secure connections"
+      : "Cannot reach the signaling server";
+    this.draft.connectionState = 'disconnected';
+    this.notify();
+  }
+
+  // Without the broker nobody new can reach us, but everyone already connected stays
+  private handleSignalingLost(peer: Peer) {
+    if (this.isLeaving || peer !== this.peer || peer.destroyed) return;
+    this.draft.signalingError = 'lost';
+    this.scheduleSignalingRetry(peer);
+    this.notify();
+  }
+
+  private scheduleSignalingRetry(peer: Peer) {
+    if (this.signalingRetry.timer) clearTimeout(this.signalingRetry.timer);
+    this.signalingRetry.timer = setTimeout(() => {
+      this.signalingRetry.timer = null;
+      if (this.isLeaving || peer !== this.peer || !peer.disconnected || peer.destroyed) return;
+      this.signalingRetry.attempt++;
+      // PeerJS keeps our id; a failed attempt disconnects again and lands back here
+      peer.reconnect();
+    }, reconnectDelay(this.signalingRetry.attempt));
+  }
+
+  private clearSignalingRetry() {
+    if (this.signalingRetry.timer) clearTimeout(this.signalingRetry.timer);
+    this.signalingRetry = { attempt: 0, timer: null };
   }
 
   // --- CONNECTION LOGIC ---
@@ -388,13 +2716,23 @@ class MeetingManager {
   async startHosting(roomId: string, authToken: string, name: string, isApiKey: boolean = false) {
     if (!this.localStream) await this.initializeMedia();
 
-    this.peer = new Peer({ config: { iceServers: ICE_SERVERS } });
-
-    this.peer.on('open', async (id) => {
+    this.roomId = roomId;
+    this.localName = name;
+    this.hostToken = generateSecureToken();
+    // Joining is the user gesture the mic's audio context may have been waiting for
+    this.audioProcessor?.resume();
+    await this.createDmKeys();
+    this.draft.signalingError = null;
+    this.peer = await this.createPeer();
+    if (!this.peer) return;
+
+    // Only the first open; reconnecting to the signaling server must not reset the meeting
+    this.peer.once('open', async (id) => {
+        this.hostPeerId = id;
         try {
             const body = isApiKey 
-                ? { hostPeerId: id } 
-                : { password: authToken, hostPeerId: id };
+                ? { hostPeerId: id, hostToken: this.hostToken } 
+                : { password: authToken, hostPeerId: id, hostToken: this.hostToken };
             
             const headers: HeadersInit = { 'Content-Type': 'application/json' };
             if (isApiKey) headers['Authorization'] = `Bearer ${authToken}`;
@@ -402,233 +2740,462 @@ class MeetingManager {
             await fetch(`/api/rooms/${roomId}`, { method: 'POST', headers, body: JSON.stringify(body) });
         } catch(e) { console.error(e); }
 
-        this.state.connectionState = 'active';
-        this.state.participants = [{
+        this.draft.connectionState = 'active';
+        this.draft.participants = [{
             id, name, role: 'host', status: 'connected',
-            hasAudio: !this.state.isAudioMuted, hasVideo: !this.state.isVideoMuted, isScreenSharing: false
+            hasAudio: !this.draft.isAudioMuted, hasVideo: !this.draft.isVideoMuted, isScreenSharing: false
         }];
         this.notify();
     });
 
     this.peer.on('connection', (conn) => this.setupDataConnection(conn));
     this.peer.on('call', (call) => {
+        if (this.refusesCall(call)) return;
+        if (isScreenCall(call)) return this.receiveScreenCall(call);
+        if (acceptsScreenCalls(call)) this.screenReceivers.add(call.peer);
         call.answer(this.localStream!);
         this.setupCall(call);
     });
   }
 
-  async joinRoom(hostPeerId: string, name: string) {
+  async joinRoom(hostPeerId: string, name: string, roomId?: string, passcode?: string) {
     if (!this.localStream) await this.initializeMedia();
     
-    this.peer = new Peer({ config: { iceServers: ICE_SERVERS } });
-    this.state.connectionState = 'connecting';
+    this.roomId = roomId || null;
+    this.hostPeerId = hostPeerId;
+    this.localName = name;
+    // Joining is the user gesture the mic's audio context may have been waiting for
+    this.audioProcessor?.resume();
+    this.joinPasscode = passcode || null;
+    this.draft.joinRejection = null;
+    this.awaitingEntrySettings = true;
+    this.resumeToken = roomId ? this.loadResumeToken(roomId) : null;
+    await this.createDmKeys();
+    this.draft.signalingError = null;
+    this.draft.connectionState = 'connecting';
     this.notify();
+    this.peer = await this.createPeer();
+    if (!this.peer) return;
 
-    this.peer.on('open', () => {
+    this.peer.once('open', () => {
       const conn = this.peer!.connect(hostPeerId);
       this.setupDataConnection(conn, name);
     });
 
+    this.peer.on('connection', (conn) => this.handleIncomingConnection(conn));
+
     this.peer.on('call', (call) => {
+      // We may have taken over as host since
+      if (this.refusesCall(call)) return;
+      if (isRelayCall(call)) return this.receiveRelayCall(call);
+      if (isScreenCall(call)) return this.receiveScreenCall(call);
+      if (acceptsScreenCalls(call)) this.screenReceivers.add(call.peer);
       call.answer(this.localStream!);
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const callerName = (call.metadata as any)?.name || "Participant";
+      const callerName = (call.metadata as CallMetadata | undefined)?.name || "Participant";
       this.setupCall(call, callerName);
-      if (this.state.connectionState !== 'active') this.state.connectionState = 'active';
+      if (this.draft.connectionState !== 'active') this.draft.connectionState = 'active';
       this.notify();
     });
   }
 
   approveParticipant(peerId: string) {
-    const waiterIndex = this.state.waitingPeers.findIndex(w => w.peerId === peerId);
-    if (waiterIndex === -1) return;
-    const waiter = this.state.waitingPeers[waiterIndex];
+    this.admit(peerId);
+  }
 
-    if (!this.state.participants.some(p => p.id === peerId)) {
-      this.state.participants.push({
-        id: peerId, name: waiter.name, role: 'participant', status: 'connecting',
-        hasAudio: true, hasVideo: true, isScreenSharing: false
-      });
+  private admit(peerId: string, resumed?: ResumeSession) {
+    const waiterIndex = this.draft.waitingPeers.findIndex(w => w.peerId === peerId);
+    if (waiterIndex === -1) return;
+    const waiter = this.draft.waitingPeers[waiterIndex];
+    // A full room keeps newcomers waiting; people resuming had their seat already
+    if (!resumed && this.isRoomFull()) return;
+    const name = resumed?.name ?? waiter.name;
+    const approvedAt = resumed?.approvedAt ?? Date.now();
+
+    if (!this.draft.participants.some(p => p.id === peerId)) {
+      const participant: Participant = {
+        id: peerId, name, role: 'participant', status: 'connecting',
+        hasAudio: true, hasVideo: true, isScreenSharing: false, approvedAt
+      };
+      // A resumed session slots back in ahead of everyone admitted after it
+      const index = resumed ? this.draft.participants.findIndex(p => p.approvedAt !== undefined && p.approvedAt > approvedAt) : -1;
+      if (index === -1) this.draft.participants.push(participant);
+      else this.draft.participants.splice(index, 0, participant);
     }
 
-    waiter.conn.send({ type: 'join-accepted' });
-
-    const existingPeers = this.state.participants
-        .filter(p => p.id !== this.getPeerId() && p.id !== peerId)
-        .map(p => ({ id: p.id, name: p.name }));
+    const resumeToken = this.issueResumeToken(peerId, name, approvedAt);
+    // A resumed participant takes back the name they had, whatever they typed this time
+    this.sendTo(waiter.conn, resumed ? { type: 'join-accepted', resumeToken, name } : { type: 'join-accepted', resumeToken });
+    this.sendTo(waiter.conn, { type: 'room-settings', settings: this.draft.roomSettings });
+    // A bigger room may tip it into a star, and the newcomer needs to know before it starts calling
+    this.updateTopology();
+    if (this.draft.shareChatHistory) this.sendChatHistory(waiter.conn);
+    this.sendDmKeys(waiter.conn);
+
+    // In a star the newcomer only calls peers we cannot forward for
+    const relayed = this.relayedPeers.has(peerId);
+    const existingPeers = this.draft.participants
+        .filter(p => p.id !== this.getPeerId() && p.id !== peerId && !(relayed && this.relayedPeers.has(p.id)))
+        .map(p => ({ id: p.id, name: p.name, screenStream: this.supportsScreenCalls(p.id) }));
 
     if (existingPeers.length > 0) {
-        setTimeout(() => { if (waiter.conn.open) waiter.conn.send({ type: 'active-peers', peers: existingPeers }); }, 500);
+        setTimeout(() => this.sendTo(waiter.conn, { type: 'active-peers', peers: existingPeers }), 500);
     }
 
     const myName = this.getMyName();
-    const call = this.peer!.call(peerId, this.localStream!, { metadata: { name: myName } });
-    this.setupCall(call, waiter.name);
+    const call = this.peer!.call(peerId, this.localStream!, { metadata: { name: myName, screenStream: true } });
+    this.setupCall(call, name);
 
-    const p = this.state.participants.find(p => p.id === peerId);
-    if (p) { p.role = 'participant'; p.status = 'connected'; }
+    const p = this.draft.participants.find(p => p.id === peerId);
+    if (p) { p.role = 'participant'; p.status = 'connected'; p.approvedAt ??= Date.now(); }
     
-    this.addSystemMessage(`${waiter.name} joined the meeting`);
-    this.state.waitingPeers.splice(waiterIndex, 1);
+    this.addSystemMessage(resumed ? `${name} rejoined the meeting` : `${name} joined the meeting`);
+    this.draft.waitingPeers.splice(waiterIndex, 1);
+    this.broadcastSuccession();
     this.notify();
   }
 
-  rejectParticipant(peerId: string) {
-    const waiterIndex = this.state.waitingPeers.findIndex(p => p.peerId === peerId);
+  rejectParticipant(peerId: string, reason?: 'passcode') {
+    const waiterIndex = this.draft.waitingPeers.findIndex(p => p.peerId === peerId);
     if (waiterIndex === -1) return;
-    const waiter = this.state.waitingPeers[waiterIndex];
-    waiter.conn.send({ type: 'join-rejected' });
+    const waiter = this.draft.waitingPeers[waiterIndex];
+    this.passcodeChallenges.delete(peerId);
+    this.sendTo(waiter.conn, reason ? { type: 'join-rejected', reason } : { type: 'join-rejected' });
     waiter.conn.close();
-    this.state.waitingPeers.splice(waiterIndex, 1);
+    this.draft.waitingPeers.splice(waiterIndex, 1);
+    this.broadcastSuccession();
     this.notify();
   }
 
   connectToPeer(peerId: string, name: string) {
-    if (!this.localStream || !this.peer || this.calls.has(peerId)) return;
+    if (!this.localStream || !this.peer || this.calls.has(peerId) || !this.wantsDirectMedia(peerId)) return;
     const myName = this.getMyName();
-    const call = this.peer.call(peerId, this.localStream, { metadata: { name: myName } });
+    const call = this.peer.call(peerId, this.localStream, { metadata: { name: myName, screenStream: true } });
     this.setupCall(call, name);
   }
 
   private setupDataConnection(conn: DataConnection, joinName?: string) {
     conn.on('open', () => {
+      this.sendTo(conn, createHello());
       if (joinName) {
-        this.state.connectionState = 'waiting';
+        this.draft.connectionState = 'waiting';
         this.notify();
-        conn.send({ type: 'join-request', name: joinName });
+        this.sendJoinRequest(conn, joinName);
       } else {
         this.broadcastStatusUpdate();
+        this.broadcastSuccession();
       }
+      this.checkRecovered(conn.peer);
     });
 
     conn.on('data', (data) => {
-        const msg = data as Message;
-        if (msg.type === 'join-request') {
-            this.state.waitingPeers.push({ peerId: conn.peer, name: msg.name, conn });
-            this.notify();
-        } else if (msg.type === 'join-accepted') {
-            this.state.connectionState = 'connected';
-            if (!this.state.participants.some(p => p.id === conn.peer)) {
-                this.state.participants.push({
-                    id: conn.peer, name: "Host", role: 'host', status: 'connected',
-                    hasAudio: true, hasVideo: true, isScreenSharing: false
-                });
-            }
-            this.notify();
-        } else if (msg.type === 'join-rejected') {
-            this.state.error = "Host rejected your request";
-            this.state.connectionState = 'disconnected';
-            this.notify();
-            conn.close();
-        } else {
-            this.handleDataMessage(data, conn.peer);
+        const parsed = parseMessage(data);
+        if (!parsed.ok) {
+            console.warn(`MeetingManager: Rejected message from ${conn.peer}: ${parsed.reason}`);
+            return;
+        }
+
+        try {
+            this.handleConnectionMessage(conn, parsed.message);
+        } catch (e) {
+            console.error(`MeetingManager: Failed to handle ${parsed.message.type} from ${conn.peer}`, e);
         }
     });
 
-    conn.on('close', () => this.handlePeerDisconnection(conn.peer));
-    conn.on('error', (e) => { console.error(e); this.handlePeerDisconnection(conn.peer); });
+    conn.on('iceStateChanged', (iceState) => this.handleIceState(conn.peer, iceState));
+    conn.on('close', () => this.handleLinkLost(conn.peer, conn));
+    conn.on('error', (e) => { console.error(e); this.handleLinkLost(conn.peer, conn); });
+
+    // A peer that reconnected replaces its old link
+    const stale = this.connections.get(conn.peer);
     this.connections.set(conn.peer, conn);
+    if (stale && stale !== conn) stale.close();
+  }
+
+  private sendJoinRequest(conn: DataConnection, name: string) {
+    this.sendTo(conn, this.resumeToken
+      ? { type: 'join-request', name, resumeToken: this.resumeToken }
+      : { type: 'join-request', name });
+  }
+
+  private handleConnectionMessage(conn: DataConnection, msg: MeetingMessage) {
+    if (msg.type === 'hello') {
+        if (msg.version < MIN_PROTOCOL_VERSION) {
+            console.warn(`MeetingManager: Peer ${conn.peer} speaks protocol ${msg.version}, need ${MIN_PROTOCOL_VERSION}+`);
+            conn.close();
+            return;
+        }
+        if (msg.version > PROTOCOL_VERSION) {
+            console.info(`MeetingManager: Peer ${conn.peer} speaks newer protocol ${msg.version}; using ${PROTOCOL_VERSION}`);
+        }
+        this.peerProtocols.set(conn.peer, { version: msg.version, capabilities: msg.capabilities });
+        // Capability-gated messages held back before the hello can go out now
+        this.broadcastSuccession();
+        this.updateTopology();
+    } else if (msg.type === 'join-request') {
+        if (this.bannedPeers.has(conn.peer) || (msg.resumeToken && this.bannedSessions.has(msg.resumeToken))) {
+            this.sendTo(conn, { type: 'join-rejected' });
+            conn.close();
+            return;
+        }
+        if (msg.resumeToken && this.isHost() && this.tryResume(conn, msg.resumeToken)) return;
+        if (this.isHost() && this.isRoomFull()) {
+            this.sendTo(conn, { type: 'join-rejected', reason: 'full' });
+            conn.close();
+            return;
+        }
+        if (!this.draft.waitingPeers.some(w => w.peerId === conn.peer)) {
+            this.draft.waitingPeers.push({ peerId: conn.peer, name: msg.name, conn });
+        }
+        if (this.passcodeKey && this.isHost()) this.challengePasscode(conn);
+        else if (this.isHost() && !this.draft.roomSettings.allowWaitingRoom) this.admit(conn.peer);
+        this.broadcastSuccession();
+        this.notify();
+    } else if (msg.type === 'passcode-challenge') {
+        if (conn.peer !== this.hostPeerId || this.draft.connectionState !== 'waiting') return;
+        this.answerPasscode(conn, msg.nonce);
+    } else if (msg.type === 'passcode-answer') {
+        this.checkPasscodeAnswer(conn.peer, msg.proof);
+    } else if (msg.type === 'join-accepted') {
+        this.draft.connectionState = 'connected';
+        if (msg.resumeToken) this.storeResumeToken(msg.resumeToken);
+        if (msg.name) this.localName = msg.name;
+        // The host relays our key to everyone so they can message us privately
+        if (this.dmPublicKey) this.sendTo(conn, { type: 'dm-key', publicKey: this.dmPublicKey });
+        if (!this.draft.participants.some(p => p.id === conn.peer)) {
+            this.draft.participants.push({
+                id: conn.peer, name: "Host", role: 'host', status: 'connected',
+                hasAudio: true, hasVideo: true, isScreenSharing: false
+            });
+        }
+        this.notify();
+    } else if (msg.type === 'join-rejected') {
+        this.draft.joinRejection = msg.reason ?? 'host';
+        this.draft.error = msg.reason === 'passcode' ? "Incorrect passcode"
+          : msg.reason === 'full' ? "The meeting is full" : "Host rejected your request";
+        this.draft.connectionState = 'disconnected';
+        this.notify();
+        conn.close();
+    } else if (this.isMember(conn.peer)) {
+        // Until they are let in, knockers only get to knock
+        this.handleDataMessage(msg, conn.peer);
+    }
+  }
+
+  // As host we only take calls from people we admitted; the newcomer's tile comes from admit(), not their call
+  private refusesCall(call: MediaConnection) {
+    if (!this.isHost() || this.draft.participants.some(p => p.id === call.peer)) return false;
+    console.warn(`MeetingManager: Refused a call from ${call.peer}, who is not in the meeting`);
+    call.close();
+    return true;
   }
 
   private setupCall(call: MediaConnection, nameOverride?: string) {
-    let participant = this.state.participants.find(p => p.id === call.peer);
+    let participant = this.draft.participants.find(p => p.id === call.peer);
     if (!participant) {
         participant = {
             id: call.peer, name: nameOverride || "User", role: 'participant', status: 'connected',
             hasAudio: true, hasVideo: true, isScreenSharing: false
         };
-        this.state.participants.push(participant);
+        this.draft.participants.push(participant);
     } else if (nameOverride) participant.name = nameOverride;
 
     call.on('stream', (remoteStream) => {
-      const p = this.state.participants.find(part => part.id === call.peer);
+      const p = this.draft.participants.find(part => part.id === call.peer);
       if (p) {
         p.stream = remoteStream;
+        this.audioMonitor.track(call.peer, remoteStream);
+        this.startAudioMonitoring();
+        this.applySenderEncoding(call.peer);
+        this.checkRecovered(call.peer);
+        this.syncRelays();
         this.notify();
       }
     });
 
-    call.on('close', () => this.handlePeerDisconnection(call.peer));
-    call.on('error', (e) => { console.error(e); this.handlePeerDisconnection(call.peer); });
+    call.on('iceStateChanged', (iceState) => this.handleIceState(call.peer, iceState));
+    call.on('close', () => this.handleLinkLost(call.peer, call));
+    call.on('error', (e) => { console.error(e); this.handleLinkLost(call.peer, call); });
+
+    const stale = this.calls.get(call.peer);
+    if (stale && stale !== call) {
+      // Counters and encodings belonged to the old RTCPeerConnection
+      this.statsCounters.delete(call.peer);
+      this.appliedEncodings.delete(call.peer);
+    }
     this.calls.set(call.peer, call);
+    if (stale && stale !== call) stale.close();
+    this.startStatsMonitoring(call.peer);
+    // A bigger mesh means a smaller share of our uplink per call
+    this.updateSenderEncodings();
+    // Newcomers have not heard that we want no video, or that we are recording
+    if (this.draft.isLowBandwidth) this.broadcastVideoPreference();
+    if (this.draft.isRecording) this.broadcastRecordingStatus();
+    if (this.draft.isScreenSharing) this.shareScreenWith(call.peer);
     this.notify();
   }
 
-  private handlePeerDisconnection(peerId: string) {
+  private handlePeerDisconnection(peerId: string, farewell: string | null = 'left the meeting') {
+      if (peerId === this.hostPeerId && !this.isHost()) this.handleHostLoss(peerId);
+
       if (this.isHost()) {
-          this.connections.forEach(conn => {
-              if (conn.open && conn.peer !== peerId) conn.send({ type: 'peer-left', peerId });
-          });
+          this.broadcast({ type: 'peer-left', peerId }, conn => conn.peer !== peerId);
       }
-      const p = this.state.participants.find(part => part.id === peerId);
-      if (p) this.addSystemMessage(`${p.name} left the meeting`);
+      const p = this.draft.participants.find(part => part.id === peerId);
+      if (p && farewell) this.addSystemMessage(`${p.name} ${farewell}`);
+      if (this.isHost()) this.markSessionLeft(peerId);
 
-      this.state.participants = this.state.participants.filter(part => part.id !== peerId);
-      this.state.waitingPeers = this.state.waitingPeers.filter(w => w.peerId !== peerId);
+      this.draft.participants = this.draft.participants.filter(part => part.id !== peerId);
+      this.draft.waitingPeers = this.draft.waitingPeers.filter(w => w.peerId !== peerId);
       this.connections.delete(peerId);
       this.calls.delete(peerId);
-      
-      const interval = this.trackMonitoringIntervals.get(peerId);
-      if (interval) { clearInterval(interval); this.trackMonitoringIntervals.delete(peerId); }
+      this.outgoingScreenCalls.get(peerId)?.close();
+      this.outgoingScreenCalls.delete(peerId);
+      this.incomingScreenCalls.get(peerId)?.close();
+      this.incomingScreenCalls.delete(peerId);
+      this.screenReceivers.delete(peerId);
+      this.endRelayedCall(peerId);
+      this.endRelayedCall(screenTileId(peerId));
+      this.relayedPeers.delete(peerId);
+      this.peerProtocols.delete(peerId);
+      this.audioMonitor.untrack(peerId);
+      this.stopStatsMonitoring(peerId);
+      this.clearRecovery(peerId);
+      this.appliedEncodings.delete(peerId);
+      this.appliedEncodings.delete(screenEncodingId(peerId));
+      this.videoPausedBy.delete(peerId);
+      this.peerDmKeys.delete(peerId);
+      this.sharedDmKeys.delete(peerId);
+      this.withdrawFiles(peerId);
+      this.applyTyping(peerId, false);
+      this.draft.recordingPeers = this.draft.recordingPeers.filter(id => id !== peerId);
+      this.updateSenderEncodings();
+      this.broadcastSuccession();
+      this.updateTopology();
       this.notify();
   }
 
   private updateLocalParticipantState() {
     const myId = this.getPeerId();
-    const localP = this.state.participants.find(p => p.id === myId);
+    const localP = this.draft.participants.find(p => p.id === myId);
     if (localP) {
-      localP.hasAudio = !this.state.isAudioMuted;
-      localP.hasVideo = !this.state.isVideoMuted;
-      localP.isScreenSharing = this.state.isScreenSharing;
+      localP.hasAudio = !this.draft.isAudioMuted;
+      localP.hasVideo = !this.draft.isVideoMuted;
+      localP.isScreenSharing = this.draft.isScreenSharing;
     }
   }
 
   private addSystemMessage(text: string) {
-      this.state.messages.push({
-          id: Date.now().toString(), senderId: 'system', senderName: 'System', text, timestamp: Date.now(), isSystem: true
+      this.draft.messages.push({
+          id: generateSecureToken(), senderId: 'system', senderName: 'System', text, timestamp: Date.now(), isSystem: true
       });
       this.notify();
   }
 
   getLocalStream() {
-      if (this.state.isScreenSharing && this.screenStream) return this.screenStream;
       return this.localStream;
   }
+
+  getScreenStream() {
+      return this.screenStream;
+  }
   
   getPeerId() { return this.peer?.id; }
   
-  getMyName() { return this.state.participants.find(p => p.id === this.getPeerId())?.name || "Me"; }
+  getMyName() { return this.draft.participants.find(p => p.id === this.getPeerId())?.name || this.localName || "Me"; }
 
-  isHost() { return this.state.participants.find(p => p.id === this.getPeerId())?.role === 'host'; }
+  isHost() { return this.draft.participants.find(p => p.id === this.getPeerId())?.role === 'host'; }
 
   leave() {
     // FIX: Increment generation ID to invalidate any pending async media requests
     this._mediaGenerationId++;
+    // Closing our own links must not look like the host dropping, or like a network blip
+    this.hostPeerId = null;
+    this.isLeaving = true;
 
-    if (this.isHost()) {
-      const myId = this.getPeerId();
-      this.connections.forEach(conn => { if (conn.open) conn.send({ type: 'peer-left', peerId: myId || '' }); });
-    }
+    // Saying goodbye spares everyone the reconnect grace period
+    const myId = this.getPeerId();
+    if (myId) this.broadcast({ type: 'peer-left', peerId: myId });
     this.connections.forEach(c => c.close());
     this.calls.forEach(c => c.close());
+    this.outgoingScreenCalls.forEach(c => c.close());
+    this.incomingScreenCalls.forEach(c => c.close());
+    this.relayCalls.forEach(relay => relay.call.close());
+    this.relayedCalls.forEach(c => c.close());
     this.trackMonitoringIntervals.forEach(i => clearInterval(i));
     this.trackMonitoringIntervals.clear();
+    this.statsCounters.clear();
+    this.appliedEncodings.clear();
+    this.videoPausedBy.clear();
+    Array.from(this.recoveries.keys()).forEach(peerId => this.clearRecovery(peerId));
+    this.clearSignalingRetry();
+    // Callers that want the file stop the recording before leaving
+    this.recorder?.dispose();
+    this.recorder = null;
+    // Leaving on purpose (or being removed) ends the session; only a reload may resume it
+    this.clearResumeToken();
+    this.resumeSessions.clear();
+    this.dmKeyPair = null;
+    this.dmPublicKey = null;
+    this.peerDmKeys.clear();
+    this.sharedDmKeys.clear();
+    this.downloads.forEach(d => { if (d.stallTimer) clearTimeout(d.stallTimer); });
+    this.downloads.clear();
+    this.outgoingFiles.clear();
+    this.activeUploads.clear();
+    this.typingTimers.forEach(timer => clearTimeout(timer));
+    this.typingTimers.clear();
+    this.lastTypingSentAt = 0;
+    this.meetingStartedAt = null;
+    this.attendance.clear();
+    Object.values(this.draft.sharedFiles).forEach(file => { if (file.url) URL.revokeObjectURL(file.url); });
+    this.stopAudioMonitoring();
+    this.unwatchDeviceChanges();
     
     this.peer?.destroy();
 
     // FIX: Explicitly stop all tracks
     this.stopStream(this.localStream);
     this.stopStream(this.screenStream);
+    this.releaseMic();
     this.localStream = null;
     this.screenStream = null;
     
     this.connections.clear();
     this.calls.clear();
-    this.state = {
-      connectionState: 'disconnected', participants: [], waitingPeers: [], messages: [], error: null,
-      isAudioMuted: false, isVideoMuted: false, isScreenSharing: false
+    this.outgoingScreenCalls.clear();
+    this.incomingScreenCalls.clear();
+    this.screenReceivers.clear();
+    this.relayCalls.clear();
+    this.relayedCalls.clear();
+    this.relayedPeers.clear();
+    this.peerProtocols.clear();
+    this.roomId = null;
+    this.localName = null;
+    this.successionOrder = [];
+    this.successionWaiting = [];
+    this.successionToken = null;
+    this.successorPeerId = null;
+    this.hostToken = null;
+    this.takeoverOffers.clear();
+    this.bannedPeers.clear();
+    this.bannedSessions.clear();
+    this.passcodeKey = null;
+    this.autoAdmit = false;
+    this.passcodeChallenges.clear();
+    this.awaitingEntrySettings = false;
+    this.joinPasscode = null;
+    this.draft = {
+      connectionState: 'disconnected', participants: [], waitingPeers: [], messages: [], error: null, joinRejection: null,
+      isAudioMuted: false, isVideoMuted: false, isScreenSharing: false, lastModeration: null,
+      isHandRaised: false, reactions: [], activeSpeakerId: null, audioLevels: {}, callStats: {},
+      isRecording: false, recordingPeers: [], shareChatHistory: true, sharedFiles: {}, typingPeers: [], roomSettings: DEFAULT_ROOM_SETTINGS,
+      topology: 'mesh', signalingError: null, localStream: null, screenStream: null,
+      // Device and bandwidth choices outlive a meeting so the next join uses the same camera and mic
+      devices: this.draft.devices, selectedDevices: this.draft.selectedDevices,
+      isLowBandwidth: this.draft.isLowBandwidth, audioProcessing: this.draft.audioProcessing, isPushToTalk: this.draft.isPushToTalk
     };
     this.notify();
+    this.isLeaving = false;
   }
 }
 
@@ -3,6 +3,8 @@
 
 import Peer, { DataConnection } from "peerjs";
 import { ICE_SERVERS } from "@/lib/connection-strategies";
+import { peerOptions, describeSignalingConfig, classifySignalingError } from "@/lib/signaling-config";
+import { PeerFactory, browserPeerFactory } from "@/lib/peer-factory";
 import { LogEntry } from "@/components/connection-logger";
 
 export type ConnectionState =
@@ -34,7 +36,7 @@ const SESSION_TIMEOUT = 15 * 60 * 1000; // 15 minutes
 
 class PeerManager {
   private static instance: PeerManager;
-  private peer: Peer;
+  private peer: Promise<Peer> | null = null;
   private connection: DataConnection | null = null;
   private sessionId: string = '';
   private role: 'sender' | 'receiver' = 'sender';
@@ -71,25 +73,41 @@ class PeerManager {
     return PeerManager.instance;
   }
 
-  private constructor() {
-    // Create global Peer instance once
-    this.peer = new Peer({
-      debug: 1,
-      config: { iceServers: ICE_SERVERS },
-      host: "0.peerjs.com",
-      port: 443,
-      secure: true,
-      path: "/",
-    });
+  // The app shares one instance; tests pair a sender and a receiver on a fake network
+  constructor(private peers: PeerFactory = browserPeerFactory) {}
 
-    this.peer.on('open', (id) => {
-      console.log('Global Peer instance ready with ID:', id);
-      this.peerId = id;
-    });
+  // Create the global Peer instance once, on the signaling server this deployment is configured for
+  private getPeer(): Promise<Peer> {
+    this.peer ??= this.peers.loadConfig().then(config => {
+      const peer = this.peers.createPeer({
+        debug: 1,
+        config: { iceServers: ICE_SERVERS },
+        ...peerOptions(config),
+      });
+
+      peer.on('open', (id) => {
+        console.log('Global Peer instance ready with ID:', id);
+        this.peerId = id;
+      });
 
-    this.peer.on('error', (err) => {
-      console.error('Global Peer error:', err);
+      peer.on('error', (err) => {
+        console.error('Global Peer error:', err);
+        if (!classifySignalingError(err)) return;
+        this.log("error", "Cannot reach the signaling server", describeSignalingConfig(config));
+        this.error = "Cannot reach the signaling server";
+        this.setConnectionState("disconnected");
+        // A destroyed peer cannot be revived; the next connect() starts over
+        if (peer.destroyed || !this.peerId) {
+          this.peer = null;
+          this.peerId = null;
+        }
+      });
+
+      return peer;
     });
+    // A missing configuration may be fixed by the next attempt
+    this.peer.catch(() => { this.peer = null; });
+    return this.peer;
   }
 
   subscribe(callbacks: PeerManagerCallbacks): () => void {
@@ -392,14 +410,21 @@ class PeerManager {
     this.role = role;
     this.cleanup(); // Clean up any existing connections
 
+    let peer: Peer;
+    try {
+      peer = await this.getPeer();
+    } catch (err) {
+      this.log("error", "No signaling configuration", String(err));
+      this.error = "Signaling is not configured correctly";
+      this.setConnectionState("disconnected");
+      throw err;
+    }
+
     return new Promise((resolve, reject) => {
       try {
         this.setConnectionState("connecting");
         this.log("info", "Starting PeerJS connection");
 
-        // Use the global peer instance
-        const peer = this.peer;
-
         // Set connection timeout
         const connectionTimeoutRef = setTimeout(() => {
           this.log("warning", "PeerJS connection timed out after 15s");
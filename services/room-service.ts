@@ -1,17 +1,27 @@
-import { RoomData, PublicRoomInfo, SimplifiedRoom } from '@/lib/types'
+import { RoomData, PublicRoomInfo, SimplifiedRoom, RoomSettings } from '@/lib/types'
 import { KVHelper } from '@/lib/kv-helper'
+import { DEFAULT_ROOM_SETTINGS, pickRoomSettings } from '@/lib/room-settings'
 
 export const roomService = {
-  async createRoom(title: string, masterPassword: string): Promise<RoomData> {
+  async createRoom(
+    title: string,
+    masterPassword: string,
+    options: { participantPasscode?: string; autoAdmitWithPasscode?: boolean; settings?: Partial<RoomSettings> } = {}
+  ): Promise<RoomData> {
     const id = Math.random().toString(36).substring(2, 8).toUpperCase()
     const room: RoomData = {
       id,
       title,
       masterPassword,
       hostPeerId: null,
+      participantPasscode: options.participantPasscode || null,
       createdAt: Date.now(),
       participants: [],
-      settings: { maxParticipants: 20 }
+      settings: {
+        ...DEFAULT_ROOM_SETTINGS,
+        ...options.settings,
+        autoAdmitWithPasscode: !!options.participantPasscode && !!options.autoAdmitWithPasscode
+      }
     }
 
     try {
@@ -29,7 +39,11 @@ export const roomService = {
     try {
       const kvHelper = KVHelper.getInstance();
       const data = await kvHelper.get(`room:${id}`)
-      return data ? JSON.parse(data) : null
+      if (!data) return null
+      const room: RoomData = JSON.parse(data)
+      // Rooms from before the feature switches only stored maxParticipants
+      room.settings = { ...DEFAULT_ROOM_SETTINGS, ...room.settings }
+      return room
     } catch (error) {
       console.error('Failed to get room from KV:', error)
       return null
@@ -48,10 +62,14 @@ export const roomService = {
     return false
   },
 
-  async updateHostPeerId(id: string, peerId: string | null) {
+  async updateHostPeerId(id: string, peerId: string | null, hostToken?: string) {
     const room = await this.getRoom(id)
     if (room) {
       room.hostPeerId = peerId
+      if (hostToken !== undefined) room.hostToken = hostToken
+      // A new host names its own successor
+      room.successorPeerId = null
+      room.successionToken = null
       try {
         const kvHelper = KVHelper.getInstance();
         await kvHelper.put(`room:${id}`, JSON.stringify(room), { expirationTtl: 24 * 60 * 60 })
@@ -62,6 +80,75 @@ export const roomService = {
     }
   },
 
+  async updateSettings(id: string, settings: Partial<RoomSettings>): Promise<{ success: boolean; settings?: RoomSettings; error?: string }> {
+    const room = await this.getRoom(id)
+    if (!room) {
+      return { success: false, error: 'Room not found' }
+    }
+
+    room.settings = { ...room.settings, ...settings }
+    try {
+      const kvHelper = KVHelper.getInstance();
+      await kvHelper.put(`room:${id}`, JSON.stringify(room), { expirationTtl: 24 * 60 * 60 })
+    } catch (error) {
+      console.error('Failed to update room settings in KV:', error)
+      return { success: false, error: 'Failed to update settings' }
+    }
+    return { success: true, settings: pickRoomSettings(room.settings) }
+  },
+
+  async nameSuccessor(
+    id: string, hostToken: string, hostPeerId: string, successorPeerId: string | null, successionToken: string | null
+  ): Promise<{ success: boolean; error?: string }> {
+    const room = await this.getRoom(id)
+    if (!room) {
+      return { success: false, error: 'Room not found' }
+    }
+
+    if (!room.hostToken || room.hostToken !== hostToken || room.hostPeerId !== hostPeerId) {
+      return { success: false, error: 'Not the host' }
+    }
+
+    room.successorPeerId = successorPeerId
+    room.successionToken = successorPeerId ? successionToken : null
+    try {
+      const kvHelper = KVHelper.getInstance();
+      await kvHelper.put(`room:${id}`, JSON.stringify(room), { expirationTtl: 24 * 60 * 60 })
+      return { success: true }
+    } catch (error) {
+      console.error('Failed to name successor:', error)
+      return { success: false, error: 'Failed to name successor' }
+    }
+  },
+
+  async migrateHost(
+    id: string, successionToken: string, previousHostPeerId: string, hostPeerId: string, hostToken: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const room = await this.getRoom(id)
+    if (!room) {
+      return { success: false, error: 'Room not found' }
+    }
+
+    // The token is bound to the one participant the host named, so being admitted once is not enough
+    if (!room.successionToken || room.successionToken !== successionToken || room.successorPeerId !== hostPeerId) {
+      return { success: false, error: 'Invalid succession token' }
+    }
+
+    // Only the host that actually dropped can be replaced; a reconnected original host wins
+    if (room.hostPeerId && room.hostPeerId !== previousHostPeerId) {
+      return { success: false, error: 'Host has already changed' }
+    }
+
+    try {
+      // Spends the token: the new host names its own successor with a fresh one
+      await this.updateHostPeerId(id, hostPeerId, hostToken)
+      return { success: true }
+    } catch (error) {
+      console.error('Failed to migrate host:', error)
+      return { success: false, error: 'Failed to migrate host' }
+    }
+  },
+
   async joinRoom(roomId: string, participantName: string, peerId: string): Promise<{ success: boolean; participantId?: string; error?: string }> {
     const room = await this.getRoom(roomId)
     if (!room) {
@@ -177,7 +264,8 @@ export const roomService = {
       title: room.title,
       createdAt: room.createdAt,
       participantCount: room.participants.filter(p => p.status === 'active').length,
-      hostConnected: !!room.hostPeerId
+      hostConnected: !!room.hostPeerId,
+      requiresPasscode: !!room.participantPasscode
     }
   }
 }
\ No newline at end of file
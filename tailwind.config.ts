@@ -78,10 +78,25 @@ const config: Config = {
             height: '0',
           },
         },
+        'reaction-float': {
+          '0%': {
+            opacity: '0',
+            transform: 'translateY(0) scale(0.6)',
+          },
+          '15%': {
+            opacity: '1',
+            transform: 'translateY(-10%) scale(1.1)',
+          },
+          '100%': {
+            opacity: '0',
+            transform: 'translateY(-180%) scale(1)',
+          },
+        },
       },
       animation: {
         'accordion-down': 'accordion-down 0.2s ease-out',
         'accordion-up': 'accordion-up 0.2s ease-out',
+        'reaction-float': 'reaction-float 4s ease-out forwards',
       },
     },
   },
@@ -0,0 +1,444 @@
+// An in-process stand-in for PeerJS, its signaling server and the browser's media devices.
+// Peers register on a FakePeerNetwork by id; data connections deliver structured clones and
+// calls deliver synthetic streams, each after the network's latency and in the order sent.
+// Nothing here touches WebRTC, so the managers run unchanged under Node.
+import type Peer from "peerjs";
+import type { PeerJSOption } from "peerjs";
+import { PeerFactory, MediaFactory } from "@/lib/peer-factory";
+import { DEFAULT_SIGNALING_CONFIG } from "@/lib/signaling-config";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Handler = (...args: any[]) => void;
+
+let nextId = 0;
+const uniqueId = (prefix: string) => `${prefix}-${++nextId}`;
+
+// Just enough of EventEmitter for what the managers call
+class Emitter {
+  private handlers: Map<string, Set<Handler>> = new Map();
+
+  on(event: string, handler: Handler) {
+    const handlers = this.handlers.get(event) ?? new Set();
+    handlers.add(handler);
+    this.handlers.set(event, handlers);
+    return this;
+  }
+
+  once(event: string, handler: Handler) {
+    const wrapper: Handler = (...args) => {
+      this.off(event, wrapper);
+      handler(...args);
+    };
+    return this.on(event, wrapper);
+  }
+
+  off(event: string, handler?: Handler) {
+    if (handler) this.handlers.get(event)?.delete(handler);
+    else this.handlers.delete(event);
+    return this;
+  }
+
+  emit(event: string, ...args: unknown[]) {
+    Array.from(this.handlers.get(event) ?? []).forEach(handler => handler(...args));
+  }
+}
+
+// --- MEDIA ---
+
+export class FakeMediaStreamTrack {
+  readonly id = uniqueId('track');
+  enabled = true;
+  readyState: MediaStreamTrackState = 'live';
+  onended: (() => void) | null = null;
+
+  constructor(readonly kind: 'audio' | 'video', readonly label: string = `Fake ${kind}`) {}
+
+  stop() {
+    this.readyState = 'ended';
+  }
+
+  // What the browser does when a device is unplugged or the user stops sharing from its own bar
+  end() {
+    if (this.readyState === 'ended') return;
+    this.stop();
+    this.onended?.();
+  }
+
+  getSettings(): MediaTrackSettings {
+    return { deviceId: this.label };
+  }
+
+  applyConstraints() {
+    return Promise.resolve();
+  }
+}
+
+export class FakeMediaStream {
+  readonly id = uniqueId('stream');
+  private tracks: FakeMediaStreamTrack[];
+
+  constructor(tracks: FakeMediaStreamTrack[] = []) {
+    this.tracks = [...tracks];
+  }
+
+  get active() {
+    return this.tracks.some(t => t.readyState === 'live');
+  }
+
+  getTracks() { return [...this.tracks]; }
+  getAudioTracks() { return this.tracks.filter(t => t.kind === 'audio'); }
+  getVideoTracks() { return this.tracks.filter(t => t.kind === 'video'); }
+
+  addTrack(track: FakeMediaStreamTrack) {
+    if (!this.tracks.includes(track)) this.tracks.push(track);
+  }
+
+  removeTrack(track: FakeMediaStreamTrack) {
+    this.tracks = this.tracks.filter(t => t !== track);
+  }
+}
+
+// The far end of a call sees the same tracks in a stream of its own, as with WebRTC
+function receivedCopy(stream: FakeMediaStream) {
+  return new FakeMediaStream(stream.getTracks());
+}
+
+export interface FakeMedia extends MediaFactory {
+  // Set to make the next captures fail, like a denied permission prompt
+  denied: boolean;
+  // Every screen share handed out, latest last
+  screens: FakeMediaStream[];
+}
+
+// A camera, a microphone and a screen that never run out
+export function createFakeMedia(): FakeMedia {
+  const media: FakeMedia = {
+    denied: false,
+    screens: [],
+    getUserMedia: async constraints => {
+      if (media.denied) throw new Error('NotAllowedError');
+      const tracks: FakeMediaStreamTrack[] = [];
+      if (constraints.audio) tracks.push(new FakeMediaStreamTrack('audio', 'Fake microphone'));
+      if (constraints.video) tracks.push(new FakeMediaStreamTrack('video', 'Fake camera'));
+      return new FakeMediaStream(tracks) as unknown as MediaStream;
+    },
+    getDisplayMedia: async () => {
+      if (media.denied) throw new Error('NotAllowedError');
+      const screen = new FakeMediaStream([new FakeMediaStreamTrack('video', 'Fake screen')]);
+      media.screens.push(screen);
+      return screen as unknown as MediaStream;
+    },
+    createStream: tracks => new FakeMediaStream(tracks as unknown as FakeMediaStreamTrack[]) as unknown as MediaStream,
+  };
+  return media;
+}
+
+// --- CONNECTIONS ---
+
+interface ConnectOptions {
+  metadata?: unknown;
+  label?: string;
+  serialization?: string;
+  reliable?: boolean;
+}
+
+export class FakeDataConnection extends Emitter {
+  readonly type = 'data';
+  readonly connectionId = uniqueId('dc');
+  readonly dataChannel = undefined; // No buffering to wait for
+  open = false;
+  closed = false;
+  remote: FakeDataConnection | null = null;
+
+  constructor(
+    private network: FakePeerNetwork,
+    readonly provider: FakePeer,
+    readonly peer: string,
+    readonly metadata: unknown,
+    readonly label: string,
+    readonly serialization: string,
+    readonly reliable: boolean
+  ) {
+    super();
+  }
+
+  // Like a closed RTCDataChannel, anything sent while not open goes nowhere
+  send(data: unknown) {
+    const remote = this.remote;
+    if (!this.open || !remote) return;
+    const copy = structuredClone(data);
+    this.network.deliver(() => {
+      if (remote.open) remote.emit('data', copy);
+    });
+  }
+
+  // Messages already sent still arrive; the far end closes after them
+  close() {
+    const remote = this.remote;
+    this.shut();
+    if (remote) this.network.deliver(() => remote.shut());
+  }
+
+  // Both ends hear about it, a hop later
+  shut() {
+    if (this.closed) return;
+    const wasOpen = this.open;
+    this.closed = true;
+    this.open = false;
+    this.remote = null;
+    this.provider.forget(this);
+    if (wasOpen) this.network.deliver(() => this.emit('close'));
+  }
+}
+
+export class FakeMediaConnection extends Emitter {
+  readonly type = 'media';
+  readonly connectionId = uniqueId('mc');
+  readonly peerConnection = undefined; // No stats, encodings or ICE restarts
+  open = false;
+  closed = false;
+  remote: FakeMediaConnection | null = null;
+  localStream: FakeMediaStream | null;
+  remoteStream: FakeMediaStream | null = null;
+
+  constructor(
+    private network: FakePeerNetwork,
+    readonly provider: FakePeer,
+    readonly peer: string,
+    readonly metadata: unknown,
+    localStream: FakeMediaStream | null
+  ) {
+    super();
+    this.localStream = localStream;
+  }
+
+  // Without a stream the caller receives nothing back, as with a receive-only answer
+  answer(stream?: FakeMediaStream) {
+    const caller = this.remote;
+    if (this.open || this.closed || !caller) return;
+    this.localStream = stream ?? null;
+    this.open = true;
+    caller.open = true;
+    this.network.deliver(() => {
+      if (caller.localStream && this.open) this.receive(caller.localStream);
+      if (this.localStream && caller.open) caller.receive(this.localStream);
+    });
+  }
+
+  private receive(stream: FakeMediaStream) {
+    this.remoteStream = receivedCopy(stream);
+    this.emit('stream', this.remoteStream);
+  }
+
+  close() {
+    const remote = this.remote;
+    this.shut();
+    if (remote) this.network.deliver(() => remote.shut());
+  }
+
+  shut() {
+    if (this.closed) return;
+    this.closed = true;
+    this.open = false;
+    this.remote = null;
+    this.provider.forget(this);
+    this.network.deliver(() => this.emit('close'));
+  }
+}
+
+// --- PEERS ---
+
+export class FakePeer extends Emitter {
+  readonly id: string;
+  open = false;
+  destroyed = false;
+  disconnected = false;
+  private links: Set<FakeDataConnection | FakeMediaConnection> = new Set();
+
+  constructor(private network: FakePeerNetwork, readonly options: PeerJSOption, id?: string) {
+    super();
+    this.id = id ?? uniqueId('peer');
+    network.register(this);
+  }
+
+  connect(peerId: string, options: ConnectOptions = {}) {
+    const conn = new FakeDataConnection(
+      this.network, this, peerId, options.metadata, options.label ?? uniqueId('dc'),
+      options.serialization ?? 'binary', options.reliable ?? true
+    );
+    this.links.add(conn);
+
+    this.network.deliver(() => {
+      if (conn.closed) return;
+      const target = this.network.reach(peerId);
+      if (!target || this.destroyed) {
+        this.links.delete(conn);
+        this.emit('error', peerError('peer-unavailable', `Could not connect to peer ${peerId}`));
+        return;
+      }
+      const far = new FakeDataConnection(
+        this.network, target, this.id, conn.metadata, conn.label, conn.serialization, conn.reliable
+      );
+      target.links.add(far);
+      conn.remote = far;
+      far.remote = conn;
+      target.emit('connection', far);
+
+      // The channel opens a hop after the far side hears of it
+      this.network.deliver(() => {
+        if (conn.remote !== far) return;
+        conn.open = true;
+        far.open = true;
+        far.emit('open');
+        conn.emit('open');
+      });
+    });
+    return conn;
+  }
+
+  call(peerId: string, stream: FakeMediaStream | null, options: { metadata?: unknown } = {}) {
+    const call = new FakeMediaConnection(this.network, this, peerId, options.metadata, stream);
+    this.links.add(call);
+
+    this.network.deliver(() => {
+      if (call.closed) return;
+      const target = this.network.reach(peerId);
+      if (!target || this.destroyed) {
+        this.links.delete(call);
+        this.emit('error', peerError('peer-unavailable', `Could not connect to peer ${peerId}`));
+        return;
+      }
+      const far = new FakeMediaConnection(this.network, target, this.id, call.metadata, null);
+      target.links.add(far);
+      call.remote = far;
+      far.remote = call;
+      target.emit('call', far);
+    });
+    return call;
+  }
+
+  forget(link: FakeDataConnection | FakeMediaConnection) {
+    this.links.delete(link);
+  }
+
+  // Loses the signaling server; established links carry on
+  disconnect() {
+    if (this.disconnected || this.destroyed) return;
+    this.disconnected = true;
+    this.open = false;
+    this.network.deliver(() => this.emit('disconnected', this.id));
+  }
+
+  reconnect() {
+    if (!this.disconnected || this.destroyed) return;
+    this.network.deliver(() => {
+      if (this.destroyed || !this.network.isUp) {
+        this.emit('error', peerError('network', 'Lost connection to server'));
+        this.emit('disconnected', this.id);
+        return;
+      }
+      this.disconnected = false;
+      this.open = true;
+      this.emit('open', this.id);
+    });
+  }
+
+  destroy() {
+    if (this.destroyed) return;
+    Array.from(this.links).forEach(link => link.close());
+    this.destroyed = true;
+    this.open = false;
+    this.disconnected = true;
+    this.network.unregister(this);
+    this.network.deliver(() => this.emit('close'));
+  }
+
+  // Vanishes without closing anything: links die on the far side as a dropped network would
+  crash() {
+    Array.from(this.links).forEach(link => link.remote?.shut());
+    this.links.clear();
+    this.destroyed = true;
+    this.open = false;
+    this.network.unregister(this);
+  }
+}
+
+function peerError(type: string, message: string) {
+  return Object.assign(new Error(message), { type });
+}
+
+// --- NETWORK ---
+
+export interface FakePeerNetworkOptions {
+  latency?: number; // Milliseconds per hop
+}
+
+export class FakePeerNetwork {
+  latency: number;
+  isUp = true; // The signaling server; links already made do not need it
+  private peers: Map<string, FakePeer> = new Map();
+  private pending = 0;
+
+  constructor({ latency = 2 }: FakePeerNetworkOptions = {}) {
+    this.latency = latency;
+  }
+
+  // What the managers take in place of PeerJS
+  readonly peerFactory: PeerFactory = {
+    loadConfig: async () => DEFAULT_SIGNALING_CONFIG,
+    createPeer: options => new FakePeer(this, options) as unknown as Peer,
+  };
+
+  peer(id: string) {
+    return this.peers.get(id);
+  }
+
+  register(peer: FakePeer) {
+    this.deliver(() => {
+      if (peer.destroyed) return;
+      if (!this.isUp) {
+        peer.emit('error', peerError('network', 'Could not reach the signaling server'));
+        peer.destroy();
+        return;
+      }
+      this.peers.set(peer.id, peer);
+      peer.open = true;
+      peer.emit('open', peer.id);
+    });
+  }
+
+  unregister(peer: FakePeer) {
+    if (this.peers.get(peer.id) === peer) this.peers.delete(peer.id);
+  }
+
+  // Signaling is needed to set up a link; a peer that lost it cannot be found
+  reach(peerId: string) {
+    const peer = this.peers.get(peerId);
+    return this.isUp && peer?.open ? peer : undefined;
+  }
+
+  // Takes the signaling server down, or brings it back
+  setSignaling(up: boolean) {
+    this.isUp = up;
+    if (!up) this.peers.forEach(peer => peer.disconnect());
+  }
+
+  // A peer's machine drops off the network without saying goodbye
+  drop(peerId: string) {
+    this.peers.get(peerId)?.crash();
+  }
+
+  // Every hop goes through here, so settled() knows when the network is quiet
+  deliver(hop: () => void) {
+    this.pending++;
+    setTimeout(() => {
+      this.pending--;
+      hop();
+    }, this.latency);
+  }
+
+  // Resolves once nothing is in flight
+  async settled() {
+    while (this.pending > 0) await new Promise(resolve => setTimeout(resolve, this.latency));
+  }
+}
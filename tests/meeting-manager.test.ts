@@ -0,0 +1,395 @@
+import { test, describe, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { resolveObjectURL } from "node:buffer";
+import MeetingManager, { MeetingEvents } from "@/services/meeting-manager";
+import { FILE_CHUNK_SIZE } from "@/lib/file-transfer";
+import { FakePeer, FakePeerNetwork, FakeMedia, FakeMediaStream, createFakeMedia } from "./fake-peer-network";
+
+const ROOM_ID = "room-1";
+
+async function waitFor(condition: () => boolean, what: string, timeout = 3000) {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${what}`);
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe("MeetingManager", () => {
+  const realFetch = globalThis.fetch;
+  let network: FakePeerNetwork;
+  let managers: MeetingManager[] = [];
+  let media: Map<MeetingManager, FakeMedia>;
+  let roomUpdates: Record<string, string | null>[] = [];
+
+  // Hosts register with the room API and name their successors there; there is no server here
+  before(() => {
+    globalThis.fetch = async (_url, init) => {
+      roomUpdates.push(JSON.parse(String(init?.body)));
+      return new Response(JSON.stringify({ success: true }));
+    };
+  });
+  after(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  afterEach(async () => {
+    managers.forEach(manager => manager.leave());
+    managers = [];
+    roomUpdates = [];
+    await network.settled();
+  });
+
+  function createManager() {
+    const devices = createFakeMedia();
+    const manager = new MeetingManager(network.peerFactory, devices);
+    managers.push(manager);
+    media.set(manager, devices);
+    return manager;
+  }
+
+  async function startMeeting() {
+    network = new FakePeerNetwork();
+    media = new Map();
+    const host = createManager();
+    await host.startHosting(ROOM_ID, "secret", "Host");
+    await waitFor(() => host.state.connectionState === "active", "the host to go live");
+    return host;
+  }
+
+  async function requestToJoin(host: MeetingManager, name: string) {
+    const guest = createManager();
+    await guest.joinRoom(host.getPeerId()!, name, ROOM_ID);
+    await waitFor(() => host.state.waitingPeers.some(w => w.peerId === guest.getPeerId()), `${name} to knock`);
+    return guest;
+  }
+
+  async function admit(host: MeetingManager, name: string) {
+    const guest = await requestToJoin(host, name);
+    host.approveParticipant(guest.getPeerId()!);
+    await waitFor(() => guest.state.connectionState === "active", `${name} to be let in`);
+    return guest;
+  }
+
+  // A bare peer speaking the wire protocol directly, as a tampered client would, let in by the host
+  async function admitImpostor(host: MeetingManager, name: string) {
+    const peer = new FakePeer(network, {});
+    await waitFor(() => peer.open, `${name} to register`);
+    const conn = peer.connect(host.getPeerId()!);
+    await waitFor(() => conn.open, `${name}'s link to open`);
+    conn.send({ v: 1, type: "join-request", name });
+    await waitFor(() => host.state.waitingPeers.some(w => w.peerId === peer.id), `${name} to knock`);
+    host.approveParticipant(peer.id);
+    return { peer, conn };
+  }
+
+  const remote = (manager: MeetingManager, peerId: string | undefined) =>
+    manager.state.participants.find(p => p.id === peerId);
+
+  describe("joining", () => {
+    test("a guest waits for the host, then receives the host's media once approved", async () => {
+      const host = await startMeeting();
+      const requests: MeetingEvents["join-requested"][] = [];
+      const joined: MeetingEvents["participant-joined"][] = [];
+      host.on("join-requested", event => requests.push(event));
+      host.on("participant-joined", event => joined.push(event));
+
+      const guest = await requestToJoin(host, "Robin");
+      assert.equal(guest.state.connectionState, "waiting");
+      assert.deepEqual(requests, [{ peerId: guest.getPeerId(), name: "Robin" }]);
+
+      host.approveParticipant(guest.getPeerId()!);
+      await waitFor(() => !!remote(guest, host.getPeerId())?.stream, "the host's stream to reach the guest");
+      await waitFor(() => !!remote(host, guest.getPeerId())?.stream, "the guest's stream to reach the host");
+
+      assert.equal(host.state.waitingPeers.length, 0);
+      assert.equal(remote(host, guest.getPeerId())?.name, "Robin");
+      assert.equal(remote(guest, host.getPeerId())?.role, "host");
+      assert.deepEqual(joined.map(event => event.participant.id), [guest.getPeerId()]);
+    });
+
+    test("a rejected guest is told why and never connects", async () => {
+      const host = await startMeeting();
+      const guest = await requestToJoin(host, "Robin");
+
+      host.rejectParticipant(guest.getPeerId()!);
+      await waitFor(() => guest.state.joinRejection !== null, "the rejection to arrive");
+
+      assert.equal(guest.state.joinRejection, "host");
+      assert.equal(guest.state.connectionState, "disconnected");
+      assert.equal(host.state.waitingPeers.length, 0);
+      assert.equal(remote(host, guest.getPeerId()), undefined);
+    });
+
+    test("someone still knocking neither hears the meeting nor gets into it", async () => {
+      const host = await startMeeting();
+      const guest = await admit(host, "Robin");
+      await waitFor(() => !!remote(guest, host.getPeerId())?.stream, "the guest to settle in");
+
+      const knocker = new FakePeer(network, {});
+      await waitFor(() => knocker.open, "the knocker to register");
+      const heard: string[] = [];
+      const conn = knocker.connect(host.getPeerId()!);
+      conn.on("data", data => heard.push((data as { type: string }).type));
+      await waitFor(() => conn.open, "the knocker's link to open");
+      conn.send({ v: 1, type: "join-request", name: "Mallory" });
+      await waitFor(() => host.state.waitingPeers.length === 1, "the knock");
+
+      conn.send({ v: 1, type: "chat-message", id: "m1", senderId: knocker.id, senderName: "Mallory", text: "hi", timestamp: 1 });
+      const call = knocker.call(host.getPeerId()!, new FakeMediaStream());
+      let answered = false;
+      call.on("stream", () => { answered = true; });
+      host.sendMessage("welcome");
+      await network.settled();
+
+      assert.equal(answered, false);
+      assert.equal(remote(host, knocker.id), undefined);
+      assert.equal(host.state.messages.some(m => m.text === "hi"), false);
+      assert.equal(guest.state.messages.some(m => m.text === "hi"), false);
+      assert.equal(guest.state.messages.some(m => m.text === "welcome"), true);
+      assert.ok(heard.every(type => type !== "chat-message" && type !== "status-update"), `knocker heard ${heard.join(", ")}`);
+    });
+
+    test("a guest who cannot find the host hears about it", async () => {
+      network = new FakePeerNetwork();
+      media = new Map();
+      const guest = createManager();
+      const errors: string[] = [];
+      guest.on("error", ({ message }) => errors.push(message));
+
+      network.setSignaling(false);
+      await guest.joinRoom("nobody", "Robin", ROOM_ID);
+      await waitFor(() => guest.state.signalingError !== null, "the signaling failure");
+
+      assert.equal(guest.state.signalingError, "unreachable");
+      assert.equal(guest.state.connectionState, "disconnected");
+      assert.deepEqual(errors, ["Cannot reach the signaling server"]);
+    });
+
+    test("a banned guest is turned away when they reload and come back", async () => {
+      const host = await startMeeting();
+      const banned = new FakePeer(network, {});
+      await waitFor(() => banned.open, "the guest to register");
+      const conn = banned.connect(host.getPeerId()!);
+      let resumeToken: string | undefined;
+      conn.on("data", data => {
+        const msg = data as { type: string; resumeToken?: string };
+        if (msg.type === "join-accepted") resumeToken = msg.resumeToken;
+      });
+      await waitFor(() => conn.open, "the guest's link to open");
+      conn.send({ v: 1, type: "join-request", name: "Mallory" });
+      await waitFor(() => host.state.waitingPeers.some(w => w.peerId === banned.id), "the guest to knock");
+      host.approveParticipant(banned.id);
+      await waitFor(() => !!resumeToken, "the guest's session");
+
+      host.banParticipant(banned.id);
+      await waitFor(() => !remote(host, banned.id), "the guest to be banned");
+
+      // The reloaded page has a new peer id, but the tab kept its session
+      const reloaded = new FakePeer(network, {});
+      await waitFor(() => reloaded.open, "the reloaded page to register");
+      const rejoin = reloaded.connect(host.getPeerId()!);
+      const heard: string[] = [];
+      rejoin.on("data", data => heard.push((data as { type: string }).type));
+      await waitFor(() => rejoin.open, "the reloaded page's link to open");
+      rejoin.send({ v: 1, type: "join-request", name: "Mallory", resumeToken });
+      await waitFor(() => heard.includes("join-rejected"), "the host to turn them away");
+
+      assert.equal(host.state.waitingPeers.length, 0);
+      assert.equal(remote(host, reloaded.id), undefined);
+    });
+  });
+
+  describe("mesh", () => {
+    test("participants admitted later call everyone already there", async () => {
+      const host = await startMeeting();
+      const first = await admit(host, "Robin");
+      const second = await admit(host, "Sam");
+
+      // active-peers tells the newcomer who to call; the calls are direct, not through the host
+      await waitFor(() => !!remote(second, first.getPeerId())?.stream, "the first guest's media to reach the second");
+      await waitFor(() => !!remote(first, second.getPeerId())?.stream, "the second guest's media to reach the first");
+
+      assert.equal(host.state.topology, "mesh");
+      assert.equal(remote(first, host.getPeerId())?.role, "host");
+      assert.equal(remote(second, host.getPeerId())?.role, "host");
+      assert.deepEqual(host.state.participants.map(p => p.name), ["Host", "Robin", "Sam"]);
+    });
+
+    test("only the host can tell a participant whom to call", async () => {
+      const host = await startMeeting();
+      const guest = await admit(host, "Robin");
+
+      // Admitted like anyone else, then calls the guest so the guest knows them too
+      const { peer: insider } = await admitImpostor(host, "Mallory");
+      insider.call(guest.getPeerId()!, new FakeMediaStream(), { metadata: { name: "Mallory" } });
+      await waitFor(() => !!remote(guest, insider.id), "the guest to meet the insider");
+
+      const stranger = new FakePeer(network, {});
+      await waitFor(() => stranger.open, "the stranger to register");
+      let called = false;
+      stranger.on("call", () => { called = true; });
+
+      const conn = insider.connect(guest.getPeerId()!);
+      await waitFor(() => conn.open, "the insider's link to the guest");
+      conn.send({ v: 1, type: "active-peers", peers: [{ id: stranger.id, name: "Stranger" }] });
+      await network.settled();
+
+      assert.equal(called, false);
+      assert.equal(remote(guest, stranger.id), undefined);
+    });
+
+    test("a participant who drops off the network is kept while they might come back", async () => {
+      const host = await startMeeting();
+      const guest = await admit(host, "Robin");
+      await waitFor(() => remote(host, guest.getPeerId())?.status === "connected", "the guest to connect");
+
+      network.drop(guest.getPeerId()!);
+      await waitFor(() => remote(host, guest.getPeerId())?.status === "reconnecting", "the host to notice");
+    });
+  });
+
+  describe("chat", () => {
+    test("a message posted under someone else's id is credited to whoever sent it", async () => {
+      const host = await startMeeting();
+      const victim = await admit(host, "Robin");
+      const { peer: author, conn } = await admitImpostor(host, "Mallory");
+
+      conn.send({
+        v: 1, type: "chat-message", id: "spoofed", senderId: victim.getPeerId(), senderName: "Robin", text: "I quit", timestamp: Date.now()
+      });
+      await waitFor(() => victim.state.messages.some(m => m.id === "spoofed"), "the message to be relayed");
+
+      assert.equal(host.state.messages.find(m => m.id === "spoofed")?.senderId, author.id);
+      assert.equal(victim.state.messages.find(m => m.id === "spoofed")?.senderId, author.id);
+    });
+
+    test("the backlog a late joiner gets keeps the sender the host checked", async () => {
+      const host = await startMeeting();
+      const victim = await admit(host, "Robin");
+      const { peer: author, conn } = await admitImpostor(host, "Mallory");
+      conn.send({
+        v: 1, type: "chat-message", id: "spoofed", senderId: victim.getPeerId(), senderName: "Robin", text: "I quit", timestamp: Date.now()
+      });
+      await waitFor(() => host.state.messages.some(m => m.id === "spoofed"), "the message to reach the host");
+
+      const late = await admit(host, "Sam");
+      await waitFor(() => late.state.messages.some(m => m.id === "spoofed"), "the backlog");
+      assert.equal(late.state.messages.find(m => m.id === "spoofed")?.senderId, author.id);
+    });
+  });
+
+  describe("host migration", () => {
+    test("the first participant admitted takes over when the host leaves", async () => {
+      const host = await startMeeting();
+      const first = await admit(host, "Robin");
+      const second = await admit(host, "Sam");
+      await waitFor(() => !!remote(second, first.getPeerId()), "the guests to meet");
+
+      host.leave();
+      await waitFor(() => remote(second, first.getPeerId())?.role === "host", "the other guest to follow the successor");
+
+      assert.equal(remote(first, first.getPeerId())?.role, "host");
+      assert.equal(remote(second, host.getPeerId()), undefined);
+
+      // The room let the first guest in with the token only it was given, and the new host named its own successor
+      const named = roomUpdates.filter(update => update.successorPeerId === first.getPeerId());
+      const migration = roomUpdates.find(update => update.previousHostPeerId === host.getPeerId())!;
+      assert.equal(migration.hostPeerId, first.getPeerId());
+      assert.equal(migration.successionToken, named[named.length - 1].successionToken);
+      await waitFor(() => roomUpdates.some(update => update.hostToken === migration.hostToken && update.successorPeerId === second.getPeerId()),
+        "the new host to name its successor");
+    });
+
+    test("what the host hands down with the line of succession shows up straight away", async () => {
+      const host = await startMeeting();
+      const guest = await admit(host, "Robin");
+      await waitFor(() => guest.state.shareChatHistory, "the first succession update");
+
+      host.setChatHistorySharing(false);
+      await waitFor(() => !guest.state.shareChatHistory, "the guest's snapshot to follow the host");
+    });
+
+    test("a peer claiming to take over from a host who is still there is not obeyed", async () => {
+      const host = await startMeeting();
+      const guest = await admit(host, "Robin");
+
+      const intruder = new FakePeer(network, {});
+      await waitFor(() => intruder.open, "the intruder to register");
+      const conn = intruder.connect(guest.getPeerId()!, { metadata: { hostTakeover: true, name: "Host" } });
+      await waitFor(() => conn.open, "the intruder's link to open");
+      conn.send({ v: 1, type: "moderate", action: "remove" });
+      await network.settled();
+
+      assert.equal(guest.state.connectionState, "active");
+      assert.equal(guest.state.lastModeration, null);
+      assert.equal(remote(guest, host.getPeerId())?.role, "host");
+    });
+  });
+
+  describe("screen sharing", () => {
+    test("a shared screen reaches everyone on its own call and goes away when stopped", async () => {
+      const host = await startMeeting();
+      const presenter = await admit(host, "Robin");
+      const viewer = await admit(host, "Sam");
+      await waitFor(() => !!remote(viewer, presenter.getPeerId())?.stream, "the mesh to form");
+
+      await presenter.startScreenShare();
+      assert.equal(presenter.state.isScreenSharing, true);
+      await waitFor(() => !!remote(host, presenter.getPeerId())?.screenStream, "the screen to reach the host");
+      await waitFor(() => !!remote(viewer, presenter.getPeerId())?.screenStream, "the screen to reach the other guest");
+
+      // The camera keeps its own call
+      const seen = remote(viewer, presenter.getPeerId())!;
+      assert.notEqual(seen.screenStream, seen.stream);
+      assert.equal(seen.screenStream!.getVideoTracks()[0].label, "Fake screen");
+
+      await presenter.stopScreenShare();
+      await waitFor(() => !remote(viewer, presenter.getPeerId())?.screenStream, "the screen to go from the other guest");
+      await waitFor(() => !remote(host, presenter.getPeerId())?.screenStream, "the screen to go from the host");
+    });
+
+    test("ending the capture from the browser stops the share", async () => {
+      const host = await startMeeting();
+      const presenter = await admit(host, "Robin");
+
+      await presenter.startScreenShare();
+      await waitFor(() => !!remote(host, presenter.getPeerId())?.screenStream, "the screen to reach the host");
+
+      media.get(presenter)!.screens[0].getVideoTracks()[0].end();
+      await waitFor(() => !presenter.state.isScreenSharing, "the share to stop");
+      await waitFor(() => !remote(host, presenter.getPeerId())?.screenStream, "the screen to go from the host");
+    });
+  });
+
+  describe("file sharing", () => {
+    test("a file is offered to everyone and downloaded in chunks by whoever opens it", async () => {
+      const host = await startMeeting();
+      const sender = await admit(host, "Robin");
+      const recipient = await admit(host, "Sam");
+      // Uploads only go to people the sender knows are in the meeting
+      await waitFor(() => !!remote(sender, recipient.getPeerId()), "the guests to meet");
+
+      const bytes = new Uint8Array(FILE_CHUNK_SIZE * 2 + 1000).map((_, i) => i % 251);
+      const offers: MeetingEvents["chat-received"][] = [];
+      recipient.on("chat-received", event => offers.push(event));
+
+      await sender.shareFiles([new File([bytes], "notes.bin", { type: "application/octet-stream" })]);
+      await waitFor(() => offers.length === 1, "the offer to arrive");
+
+      const fileId = offers[0].message.fileId!;
+      assert.equal(recipient.state.sharedFiles[fileId].status, "available");
+      assert.equal(recipient.state.sharedFiles[fileId].size, bytes.length);
+
+      assert.equal(recipient.downloadFile(fileId), true);
+      await waitFor(() => recipient.state.sharedFiles[fileId].status === "complete", "the download to finish");
+
+      const blob = resolveObjectURL(recipient.state.sharedFiles[fileId].url!);
+      assert.ok(blob);
+      assert.deepEqual(new Uint8Array(await blob.arrayBuffer()), bytes);
+      assert.equal(sender.state.sharedFiles[fileId].uploads[recipient.getPeerId()!], 1);
+      // Nobody else asked for it
+      assert.equal(host.state.sharedFiles[fileId].status, "available");
+    });
+  });
+});
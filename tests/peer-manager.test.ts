@@ -0,0 +1,85 @@
+import { test, describe, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import PeerManager from "@/services/peer-manager";
+import { FakePeerNetwork } from "./fake-peer-network";
+
+async function waitFor(condition: () => boolean, what: string, timeout = 5000) {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${what}`);
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe("PeerManager", () => {
+  let network: FakePeerNetwork;
+  let managers: PeerManager[] = [];
+
+  afterEach(async () => {
+    managers.forEach(manager => manager.disconnect());
+    managers = [];
+    await network.settled();
+  });
+
+  function createManager() {
+    const manager = new PeerManager(network.peerFactory);
+    managers.push(manager);
+    return manager;
+  }
+
+  // The receiver shows its id, the sender dials it, and the receiver types in the sender's code
+  async function pair() {
+    network = new FakePeerNetwork();
+    const received: { file: Blob; name: string }[] = [];
+    const receiver = createManager();
+    receiver.subscribe({
+      onConnectionStateChange: () => {},
+      onFileReceived: (file, metadata) => received.push({ file, name: metadata.name }),
+    });
+    const sender = createManager();
+
+    const receiverId = await receiver.connect("receiver");
+    await sender.connect("sender", receiverId);
+    await waitFor(() => receiver.getState().verificationCode !== null, "the verification code");
+    return { sender, receiver, received };
+  }
+
+  test("the receiver is verified with the code the sender generated", async () => {
+    const { sender, receiver } = await pair();
+
+    assert.equal(receiver.submitVerificationCode(sender.getState().verificationCode!), true);
+    await waitFor(() => receiver.getState().isVerified, "the receiver to be verified");
+
+    assert.equal(sender.getState().isVerified, true);
+    assert.equal(sender.getState().connectionState, "connected");
+    assert.equal(receiver.getState().connectionState, "connected");
+  });
+
+  test("a wrong code leaves the receiver unverified", async () => {
+    const { sender, receiver } = await pair();
+    const wrong = sender.getState().verificationCode === "000000" ? "111111" : "000000";
+
+    receiver.submitVerificationCode(wrong);
+    await waitFor(() => receiver.getState().error !== null, "the failure to come back");
+
+    assert.equal(receiver.getState().isVerified, false);
+    assert.equal(sender.getState().isVerified, false);
+    assert.equal(receiver.getState().connectionState, "verifying");
+  });
+
+  test("files arrive whole after travelling in chunks", async () => {
+    const { sender, receiver, received } = await pair();
+    receiver.submitVerificationCode(sender.getState().verificationCode!);
+    await waitFor(() => sender.getState().connectionState === "connected", "verification");
+
+    // Three 8KB chunks, the last one partial
+    const bytes = new Uint8Array(20000).map((_, i) => i % 253);
+    await sender.sendFiles([new File([bytes], "photo.raw", { type: "application/octet-stream" })]);
+    await waitFor(() => received.length === 1, "the file to arrive");
+
+    assert.equal(received[0].name, "photo.raw");
+    assert.deepEqual(new Uint8Array(await received[0].file.arrayBuffer()), bytes);
+    assert.deepEqual(receiver.getState().files.map(f => [f.name, f.status, f.progress]), [["photo.raw", "completed", 100]]);
+    assert.equal(receiver.getState().connectionState, "connected");
+  });
+});
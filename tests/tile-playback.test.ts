@@ -0,0 +1,31 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { tilePlayback } from "@/lib/tile-playback";
+import { FakeMediaStream, FakeMediaStreamTrack } from "./fake-peer-network";
+
+function cameraAndMicrophone() {
+  return new FakeMediaStream([new FakeMediaStreamTrack('audio'), new FakeMediaStreamTrack('video')]) as unknown as MediaStream;
+}
+
+describe("tile playback", () => {
+  test("a remote tile with its video paused still plays its audio", () => {
+    const playback = tilePlayback(cameraAndMicrophone(), { isLocal: false, isVideoEnabled: false });
+
+    assert.deepEqual(playback, { showVideo: false, attachStream: true });
+  });
+
+  test("a remote tile with its camera on shows the picture", () => {
+    assert.deepEqual(tilePlayback(cameraAndMicrophone(), { isLocal: false, isVideoEnabled: true }), { showVideo: true, attachStream: true });
+  });
+
+  test("the local tile has nothing to play without its picture", () => {
+    assert.deepEqual(tilePlayback(cameraAndMicrophone(), { isLocal: true, isVideoEnabled: false }), { showVideo: false, attachStream: false });
+  });
+
+  test("an ended stream is let go", () => {
+    const stream = cameraAndMicrophone();
+    stream.getTracks().forEach(track => track.stop());
+
+    assert.deepEqual(tilePlayback(stream, { isLocal: false, isVideoEnabled: true }), { showVideo: false, attachStream: false });
+  });
+});